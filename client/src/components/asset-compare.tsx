@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Slider } from "@/components/ui/slider";
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
+import { Asset, AssetVersionWithUploader } from "@shared/schema";
+
+type CompareMode = "side-by-side" | "overlay" | "swipe";
+
+interface AssetCompareProps {
+  asset: Asset;
+}
+
+export function AssetCompare({ asset }: AssetCompareProps) {
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [beforeId, setBeforeId] = useState<string>("");
+  const [afterId, setAfterId] = useState<string>("");
+  const [opacity, setOpacity] = useState(50);
+  const [swipePosition, setSwipePosition] = useState(50);
+
+  const { data: versions = [], isLoading } = useQuery<AssetVersionWithUploader[]>({
+    queryKey: ["/api/assets", asset.id, "versions"]
+  });
+
+  const imageVersions = versions.filter(version => version.mimeType.startsWith('image/'));
+
+  // Default to comparing the previous revision with the current one
+  useEffect(() => {
+    if (imageVersions.length >= 2 && !beforeId && !afterId) {
+      setAfterId(imageVersions[0].id);
+      setBeforeId(imageVersions[1].id);
+    }
+  }, [imageVersions, beforeId, afterId]);
+
+  const before = imageVersions.find(version => version.id === beforeId);
+  const after = imageVersions.find(version => version.id === afterId);
+
+  // Served through the app, since storage links need a Drive or bucket login
+  const getImageUrl = (version: AssetVersionWithUploader) => {
+    return `/api/assets/${asset.id}/versions/${version.id}/stream`;
+  };
+
+  if (isLoading) {
+    return <div className="w-full h-full bg-gray-200 animate-pulse" />;
+  }
+
+  if (imageVersions.length < 2) {
+    return (
+      <div className="text-center">
+        <p className="text-gray-600">At least two image versions are needed to compare.</p>
+      </div>
+    );
+  }
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-44 bg-white">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {imageVersions.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            V{version.version}{version.version === asset.version ? " (current)" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {/* Controls */}
+      <div className="flex items-center justify-between px-4 py-2 bg-white border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          {renderVersionSelect(beforeId, setBeforeId, "Before")}
+          <span className="text-sm text-gray-500">vs</span>
+          {renderVersionSelect(afterId, setAfterId, "After")}
+        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as CompareMode)}>
+          <TabsList>
+            <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+            <TabsTrigger value="overlay">Overlay</TabsTrigger>
+            <TabsTrigger value="swipe">Swipe</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {/* Comparison */}
+      {before && after && (
+        <div className="flex-1 min-h-0 flex flex-col">
+          {mode === "side-by-side" && (
+            <ResizablePanelGroup direction="horizontal" className="flex-1">
+              <ResizablePanel defaultSize={50} minSize={20}>
+                <div className="h-full flex items-center justify-center p-2">
+                  <img src={getImageUrl(before)} alt={`V${before.version}`} className="max-w-full max-h-full object-contain" />
+                </div>
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={50} minSize={20}>
+                <div className="h-full flex items-center justify-center p-2">
+                  <img src={getImageUrl(after)} alt={`V${after.version}`} className="max-w-full max-h-full object-contain" />
+                </div>
+              </ResizablePanel>
+            </ResizablePanelGroup>
+          )}
+
+          {mode !== "side-by-side" && (
+            <>
+              <div className="flex-1 min-h-0 relative">
+                <img
+                  src={getImageUrl(before)}
+                  alt={`V${before.version}`}
+                  className="absolute inset-0 w-full h-full object-contain"
+                />
+                <img
+                  src={getImageUrl(after)}
+                  alt={`V${after.version}`}
+                  className="absolute inset-0 w-full h-full object-contain"
+                  style={mode === "overlay"
+                    ? { opacity: opacity / 100 }
+                    : { clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}
+                />
+                {mode === "swipe" && (
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+                    style={{ left: `${swipePosition}%` }}
+                  />
+                )}
+              </div>
+              <div className="flex items-center space-x-3 px-4 py-2 bg-white border-t border-gray-200">
+                <span className="text-xs text-gray-500 w-10">V{before.version}</span>
+                <Slider
+                  value={[mode === "overlay" ? opacity : swipePosition]}
+                  onValueChange={([value]) => mode === "overlay" ? setOpacity(value) : setSwipePosition(value)}
+                  min={0}
+                  max={100}
+                  step={1}
+                />
+                <span className="text-xs text-gray-500 w-10 text-right">V{after.version}</span>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
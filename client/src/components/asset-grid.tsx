@@ -11,10 +11,11 @@ import {
   File,
   Image as ImageIcon
 } from "lucide-react";
-import { Asset } from "@shared/schema";
+import type { Asset, AssetListItem } from "@shared/schema";
+import { SearchSnippet } from "@/components/search-snippet";
 
 interface AssetGridProps {
-  assets: Asset[];
+  assets: AssetListItem[];
   onPreview: (asset: Asset) => void;
   onDownload: (asset: Asset) => void;
   onToggleFavorite: (asset: Asset) => void;
@@ -105,10 +106,11 @@ export function AssetGrid({
         return (
           <Card key={asset.id} className="asset-card overflow-hidden hover:shadow-lg transition-all">
             <div className="relative">
-              {isImage && asset.thumbnailUrl ? (
+              {asset.thumbnailUrl ? (
                 <img 
                   src={asset.thumbnailUrl} 
                   alt={asset.filename}
+                  loading="lazy"
                   className="w-full h-48 object-cover"
                 />
               ) : (
@@ -159,6 +161,7 @@ export function AssetGrid({
               <h3 className="font-medium text-gray-900 mb-1 truncate" title={asset.filename}>
                 {asset.filename}
               </h3>
+              <SearchSnippet snippet={asset.snippet} />
               <p className="text-sm text-gray-500 mb-2">
                 Uploaded {formatDate(new Date(asset.uploadDate))}
               </p>
@@ -1,10 +1,11 @@
-import { Asset } from "@shared/schema";
+import type { Asset, AssetListItem } from "@shared/schema";
+import { SearchSnippet } from "@/components/search-snippet";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Heart, Download, Eye, FileText, ImageIcon, Play, File } from "lucide-react";
 
 interface AssetListProps {
-  assets: Asset[];
+  assets: AssetListItem[];
   onPreview: (asset: Asset) => void;
   onDownload: (asset: Asset) => void;
   onToggleFavorite: (asset: Asset) => void;
@@ -96,18 +97,18 @@ export function AssetList({
     <div className="space-y-3">
       {assets.map((asset) => {
         const FileIcon = getFileIcon(asset.mimeType);
-        const isImage = asset.mimeType.startsWith('image/');
         const isVideo = asset.mimeType.startsWith('video/');
 
         return (
           <div key={asset.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:border-gray-300 transition-colors">
             <div className="flex items-center space-x-4">
               {/* Thumbnail */}
-              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center overflow-hidden">
-                {isImage && asset.thumbnailLink ? (
+              <div className="relative w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center overflow-hidden">
+                {asset.thumbnailUrl ? (
                   <img 
-                    src={asset.thumbnailLink} 
+                    src={asset.thumbnailUrl} 
                     alt={asset.originalName}
+                    loading="lazy"
                     className="w-full h-full object-cover"
                   />
                 ) : (
@@ -127,6 +128,7 @@ export function AssetList({
                     <h3 className="text-sm font-medium text-gray-900 truncate mb-1">
                       {asset.originalName}
                     </h3>
+                    <SearchSnippet snippet={asset.snippet} />
                     
                     {/* Metadata */}
                     <div className="flex flex-wrap items-center gap-2 mb-2">
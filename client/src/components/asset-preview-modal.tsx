@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,22 +9,37 @@ import {
   Edit, 
   Copy, 
   Trash2,
-  ExternalLink
+  Upload,
+  Columns2,
+  ScanSearch
 } from "lucide-react";
-import { Asset } from "@shared/schema";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { EMAILER_MIME_TYPES, type Asset, type AssetSlide, type AssetVersionWithUploader, type EmailerPreview as EmailerPreviewData } from "@shared/schema";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canUpload, canEditAsset, canDeleteAsset } from "@shared/permissions";
+import { UploadVersionModal } from "@/components/upload-version-modal";
+import { AssetCompare } from "@/components/asset-compare";
+import { EmailerPreview, EmailerDetails } from "@/components/emailer-preview";
+import { CarouselSlides, SlideOrder } from "@/components/carousel-slides";
+import { SimilarAssets } from "@/components/similar-assets";
 
 interface AssetPreviewModalProps {
   asset: Asset | null;
   isOpen: boolean;
   onClose: () => void;
+  onShowVersions: (asset: Asset) => void;
+  onAssetChange: (asset: Asset) => void;
 }
 
-export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalProps) {
+export function AssetPreviewModal({ asset, isOpen, onClose, onShowVersions, onAssetChange }: AssetPreviewModalProps) {
+  const [isUploadVersionOpen, setIsUploadVersionOpen] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isFindingSimilar, setIsFindingSimilar] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const toggleFavoriteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -39,6 +55,23 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
     }
   });
 
+  const isEmailer = !!asset && EMAILER_MIME_TYPES.includes(asset.mimeType);
+  const emailerQuery = useQuery<EmailerPreviewData>({
+    queryKey: ["/api/assets", asset?.id, "emailer"],
+    enabled: isOpen && isEmailer
+  });
+
+  const { data: slides = [] } = useQuery<AssetSlide[]>({
+    queryKey: ["/api/assets", asset?.id, "slides"],
+    enabled: isOpen && asset?.assetType === "Carousel"
+  });
+
+  // Shared with the compare view, which picks from the same list
+  const { data: versions = [] } = useQuery<AssetVersionWithUploader[]>({
+    queryKey: ["/api/assets", asset?.id, "versions"],
+    enabled: isOpen && !!asset?.mimeType.startsWith("image/")
+  });
+
   const deleteAssetMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/assets/${id}`);
@@ -47,8 +80,8 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
       queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       toast({
-        title: "Asset deleted",
-        description: "Asset has been successfully deleted."
+        title: "Moved to trash",
+        description: "The asset can be restored from the Trash view."
       });
       onClose();
     },
@@ -63,8 +96,29 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
 
   if (!asset) return null;
 
+  const handleClose = () => {
+    setIsComparing(false);
+    setIsFindingSimilar(false);
+    onClose();
+  };
+
+  const handleToggleCompare = () => {
+    setIsComparing(!isComparing);
+    setIsFindingSimilar(false);
+  };
+
+  const handleToggleSimilar = () => {
+    setIsFindingSimilar(!isFindingSimilar);
+    setIsComparing(false);
+  };
+
+  const handleSelectSimilar = (similar: Asset) => {
+    setIsFindingSimilar(false);
+    onAssetChange(similar);
+  };
+
   const handleDownload = () => {
-    window.open(asset.driveLink, '_blank');
+    window.location.href = `/api/assets/${asset.id}/download`;
   };
 
   const handleToggleFavorite = () => {
@@ -72,7 +126,7 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
   };
 
   const handleDelete = () => {
-    if (window.confirm("Are you sure you want to delete this asset? This action cannot be undone.")) {
+    if (window.confirm("Move this asset to the trash? It can be restored until the trash is emptied.")) {
       deleteAssetMutation.mutate(asset.id);
     }
   };
@@ -89,17 +143,68 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
     return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
   };
 
+  const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    const minutes = Math.floor(total / 60) % 60;
+    const hours = Math.floor(total / 3600);
+    const rest = (total % 60).toString().padStart(2, '0');
+    return hours > 0
+      ? `${hours}:${minutes.toString().padStart(2, '0')}:${rest}`
+      : `${minutes}:${rest}`;
+  };
+
+  // 1080 × 1920 is 9:16; ratios that don't reduce to small numbers are
+  // shown against 1, e.g. 1.91:1
+  const formatAspectRatio = (width: number, height: number) => {
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+    const divisor = gcd(width, height);
+    if (width / divisor <= 32 && height / divisor <= 32) {
+      return `${width / divisor}:${height / divisor}`;
+    }
+    return `${(width / height).toFixed(2)}:1`;
+  };
+
   const isImage = asset.mimeType.startsWith('image/');
   const isVideo = asset.mimeType.startsWith('video/');
+  const isPdf = asset.mimeType === 'application/pdf';
+  // Generated previews come in sizes; the modal has room for the medium one
+  const previewUrl = asset.thumbnailUrl?.replace('/thumbnail/small', '/thumbnail/medium');
+  // Visual comparison only makes sense for image-based asset types
+  const canCompare = isImage && (asset.assetType === 'Static' || asset.assetType === 'Carousel') && versions.length >= 2;
+  const canEdit = !!user && canEditAsset(user, asset);
+  const canDuplicate = !!user && canUpload(user, asset.region);
+  const canDelete = !!user && canDeleteAsset(user, asset);
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden p-0">
         <div className="p-4 border-b border-gray-200 flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-900 truncate">
             {asset.filename}
           </h2>
           <div className="flex items-center space-x-3">
+            {canCompare && (
+              <Button
+                variant={isComparing ? "secondary" : "ghost"}
+                size="sm"
+                onClick={handleToggleCompare}
+                className="text-gray-400 hover:text-primary"
+                title="Compare versions"
+              >
+                <Columns2 className="h-4 w-4" />
+              </Button>
+            )}
+            {asset.perceptualHash && (
+              <Button
+                variant={isFindingSimilar ? "secondary" : "ghost"}
+                size="sm"
+                onClick={handleToggleSimilar}
+                className="text-gray-400 hover:text-primary"
+                title="Find similar"
+              >
+                <ScanSearch className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -126,7 +231,7 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
             <Button
               variant="ghost"
               size="sm"
-              onClick={onClose}
+              onClick={handleClose}
               className="text-gray-400 hover:text-gray-600"
             >
               <X className="h-4 w-4" />
@@ -136,28 +241,34 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
         
         <div className="flex h-96">
           {/* Preview Area */}
-          <div className="flex-1 bg-gray-100 flex items-center justify-center">
-            {isImage && asset.thumbnailUrl ? (
+          <div className="flex-1 min-w-0 bg-gray-100 flex items-center justify-center">
+            {isFindingSimilar && asset.perceptualHash ? (
+              <SimilarAssets key={asset.id} asset={asset} onSelect={handleSelectSimilar} />
+            ) : isComparing && canCompare ? (
+              <AssetCompare key={asset.id} asset={asset} />
+            ) : slides.length > 1 ? (
+              <CarouselSlides key={asset.id} asset={asset} slides={slides} />
+            ) : (isImage || isPdf) && previewUrl ? (
               <img 
-                src={asset.thumbnailUrl} 
+                src={previewUrl} 
                 alt={asset.filename}
                 className="max-w-full max-h-full object-contain"
               />
+            ) : isEmailer ? (
+              <EmailerPreview
+                preview={emailerQuery.data}
+                isLoading={emailerQuery.isLoading}
+                error={emailerQuery.error}
+              />
             ) : isVideo ? (
-              <div className="text-center">
-                <div className="w-32 h-32 bg-gray-200 rounded-lg flex items-center justify-center mb-4">
-                  <span className="text-4xl">🎥</span>
-                </div>
-                <p className="text-gray-600">Video preview not available</p>
-                <Button 
-                  onClick={handleDownload}
-                  variant="outline" 
-                  className="mt-2"
-                >
-                  <ExternalLink className="mr-2 h-4 w-4" />
-                  Open in Google Drive
-                </Button>
-              </div>
+              <video
+                key={asset.id}
+                src={`/api/assets/${asset.id}/stream`}
+                poster={previewUrl}
+                controls
+                preload="metadata"
+                className="max-w-full max-h-full bg-black"
+              />
             ) : (
               <div className="text-center">
                 <div className="w-32 h-32 bg-gray-200 rounded-lg flex items-center justify-center mb-4">
@@ -169,8 +280,8 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
                   variant="outline" 
                   className="mt-2"
                 >
-                  <ExternalLink className="mr-2 h-4 w-4" />
-                  Open in Google Drive
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
                 </Button>
               </div>
             )}
@@ -222,11 +333,87 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
                 <p className="text-gray-900">{formatFileSize(asset.fileSize)}</p>
               </div>
               
+              {asset.width && asset.height && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Resolution</label>
+                  <p className="text-gray-900">{asset.width} × {asset.height}</p>
+                </div>
+              )}
+              
+              {asset.width && asset.height && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Aspect Ratio</label>
+                  <p className="text-gray-900">{formatAspectRatio(asset.width, asset.height)}</p>
+                </div>
+              )}
+              
+              {asset.colorSpace && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Color Space</label>
+                  <p className="text-gray-900">{asset.colorSpace}</p>
+                </div>
+              )}
+              
+              {asset.palette && asset.palette.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Colors</label>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {asset.palette.map(color => (
+                      <div
+                        key={color.hex}
+                        className="h-8 w-8 rounded border border-gray-300"
+                        style={{ backgroundColor: color.hex }}
+                        title={`${color.hex} (${Math.round(color.share * 100)}%)`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {asset.dpi && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">DPI</label>
+                  <p className="text-gray-900">{asset.dpi}</p>
+                </div>
+              )}
+              
+              {asset.creator && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Creator</label>
+                  <p className="text-gray-900">{asset.creator}</p>
+                </div>
+              )}
+              
+              {asset.copyright && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Copyright</label>
+                  <p className="text-gray-900">{asset.copyright}</p>
+                </div>
+              )}
+              
+              {asset.duration != null && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Duration</label>
+                  <p className="text-gray-900">{formatDuration(asset.duration)}</p>
+                </div>
+              )}
+              
+              {asset.videoCodec && (
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Codec</label>
+                  <p className="text-gray-900">{asset.videoCodec.toUpperCase()}</p>
+                </div>
+              )}
+              
               <div>
                 <label className="text-sm font-medium text-gray-600">Version</label>
                 <p className="text-gray-900">V{asset.version}</p>
               </div>
               
+              {slides.length > 1 && <SlideOrder asset={asset} slides={slides} canEdit={canEdit} />}
+              
+              {emailerQuery.data && <EmailerDetails preview={emailerQuery.data} />}
+              
               {asset.tags && asset.tags.length > 0 && (
                 <div>
                   <label className="text-sm font-medium text-gray-600">Tags</label>
@@ -240,76 +427,105 @@ export function AssetPreviewModal({ asset, isOpen, onClose }: AssetPreviewModalP
                 </div>
               )}
               
-              <div>
-                <label className="text-sm font-medium text-gray-600">Google Drive Link</label>
-                <Button
-                  variant="link"
-                  onClick={handleDownload}
-                  className="p-0 h-auto text-primary hover:underline text-sm"
-                >
-                  View in Google Drive
-                </Button>
-              </div>
-              
-              {asset.versionsLink && (
+              {/* Rows from before storage providers mark local files with a "local" id */}
+              {asset.storageProvider === "drive" && asset.googleDriveFileId !== "local" && (
                 <div>
-                  <label className="text-sm font-medium text-gray-600">Version History</label>
+                  <label className="text-sm font-medium text-gray-600">Google Drive Link</label>
                   <Button
                     variant="link"
-                    onClick={() => window.open(asset.versionsLink!, '_blank')}
+                    onClick={() => window.open(asset.driveLink, '_blank')}
                     className="p-0 h-auto text-primary hover:underline text-sm"
                   >
-                    View All Versions
+                    View in Google Drive
                   </Button>
                 </div>
               )}
-            </div>
-            
-            {/* Actions */}
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <div className="space-y-2">
-                <Button 
-                  className="w-full bg-primary hover:bg-blue-700"
-                  onClick={() => {
-                    // TODO: Implement edit functionality
-                    toast({
-                      title: "Feature coming soon",
-                      description: "Asset editing will be available in a future update."
-                    });
-                  }}
-                >
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit Asset
-                </Button>
-                
-                <Button 
-                  variant="outline" 
-                  className="w-full"
-                  onClick={() => {
-                    // TODO: Implement duplicate functionality
-                    toast({
-                      title: "Feature coming soon",
-                      description: "Asset duplication will be available in a future update."
-                    });
-                  }}
-                >
-                  <Copy className="mr-2 h-4 w-4" />
-                  Duplicate
-                </Button>
-                
-                <Button 
-                  variant="destructive" 
-                  className="w-full"
-                  onClick={handleDelete}
-                  disabled={deleteAssetMutation.isPending}
+              
+              <div>
+                <label className="text-sm font-medium text-gray-600">Version History</label>
+                <Button
+                  variant="link"
+                  onClick={() => onShowVersions(asset)}
+                  className="p-0 h-auto text-primary hover:underline text-sm"
                 >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  {deleteAssetMutation.isPending ? "Deleting..." : "Delete Asset"}
+                  View All Versions
                 </Button>
               </div>
             </div>
+            
+            {/* Actions */}
+            {(canEdit || canDuplicate || canDelete) && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <div className="space-y-2">
+                  {canEdit && (
+                    <Button 
+                      className="w-full bg-primary hover:bg-blue-700"
+                      onClick={() => {
+                        // TODO: Implement edit functionality
+                        toast({
+                          title: "Feature coming soon",
+                          description: "Asset editing will be available in a future update."
+                        });
+                      }}
+                    >
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit Asset
+                    </Button>
+                  )}
+                  
+                  {canEdit && (
+                    <Button 
+                      variant="outline" 
+                      className="w-full"
+                      onClick={() => setIsUploadVersionOpen(true)}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload New Version
+                    </Button>
+                  )}
+                  
+                  {canDuplicate && (
+                    <Button 
+                      variant="outline" 
+                      className="w-full"
+                      onClick={() => {
+                        // TODO: Implement duplicate functionality
+                        toast({
+                          title: "Feature coming soon",
+                          description: "Asset duplication will be available in a future update."
+                        });
+                      }}
+                    >
+                      <Copy className="mr-2 h-4 w-4" />
+                      Duplicate
+                    </Button>
+                  )}
+                  
+                  {canDelete && (
+                    <Button 
+                      variant="destructive" 
+                      className="w-full"
+                      onClick={handleDelete}
+                      disabled={deleteAssetMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {deleteAssetMutation.isPending ? "Moving to Trash..." : "Move to Trash"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </div>
+
+        {canEdit && (
+          <UploadVersionModal
+            asset={asset}
+            isOpen={isUploadVersionOpen}
+            onClose={() => setIsUploadVersionOpen(false)}
+            onUploaded={onAssetChange}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FolderInput, Loader2, SearchCheck } from "lucide-react";
+import { STORAGE_PROVIDERS } from "@shared/schema";
+import type { ImportReport, ImportRequest, ImportReportEntry } from "@shared/import";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const SECTIONS: { key: keyof Omit<ImportReport, "dryRun">; title: string; dryRunTitle?: string }[] = [
+  { key: "unparseable", title: "Could not parse" },
+  { key: "failed", title: "Failed" },
+  { key: "imported", title: "Imported", dryRunTitle: "Will be imported" },
+  { key: "skipped", title: "Already in the library" },
+];
+
+export function BulkImport() {
+  const [sourceType, setSourceType] = useState<"storage" | "directory">("storage");
+  const [provider, setProvider] = useState<typeof STORAGE_PROVIDERS[number]>("drive");
+  const [folderPath, setFolderPath] = useState("Assets");
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const request: ImportRequest = {
+        source: sourceType === "storage"
+          ? { type: "storage", provider, folderPath }
+          : { type: "directory", path: folderPath },
+        dryRun
+      };
+      const response = await apiRequest("POST", "/api/admin/import", request);
+      return response.json();
+    },
+    onSuccess: (report: ImportReport) => {
+      setReport(report);
+      if (!report.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+        toast({
+          title: "Import finished",
+          description: `Imported ${report.imported.length} asset${report.imported.length !== 1 ? 's' : ''}.`
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleImport = () => {
+    if (window.confirm("Create asset records for every file that parses? Run a dry run first to check the report.")) {
+      importMutation.mutate(false);
+    }
+  };
+
+  const renderEntries = (entries: ImportReportEntry[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Path</TableHead>
+          <TableHead>Reason</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.path}>
+            <TableCell className="font-mono text-xs break-all">{entry.path}</TableCell>
+            <TableCell className="text-gray-600">{entry.reason || "—"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Bulk Import</h3>
+        <p className="text-sm text-gray-500">
+          Create records for an existing Assets/Category/Region/State/Resort/Year/Month/Type folder tree
+          whose files are named YYYY_MM_Region_Resort_Type_Vn.
+        </p>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4 flex items-end gap-4">
+        <div className="space-y-2">
+          <Label>Source</Label>
+          <Select value={sourceType} onValueChange={value => setSourceType(value as typeof sourceType)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="storage">Storage folder</SelectItem>
+              <SelectItem value="directory">Server directory</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {sourceType === "storage" && (
+          <div className="space-y-2">
+            <Label>Storage</Label>
+            <Select value={provider} onValueChange={value => setProvider(value as typeof provider)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STORAGE_PROVIDERS.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2 flex-1">
+          <Label>{sourceType === "storage" ? "Folder path" : "Directory (inside IMPORT_ROOT)"}</Label>
+          <Input value={folderPath} onChange={e => setFolderPath(e.target.value)} />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => importMutation.mutate(true)}
+          disabled={!folderPath || importMutation.isPending}
+        >
+          {importMutation.isPending && importMutation.variables
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <SearchCheck className="mr-2 h-4 w-4" />}
+          Dry Run
+        </Button>
+        <Button onClick={handleImport} disabled={!folderPath || importMutation.isPending}>
+          <FolderInput className="mr-2 h-4 w-4" />
+          {importMutation.isPending && !importMutation.variables ? "Importing..." : "Import"}
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-4">
+          {report.dryRun && (
+            <p className="text-sm text-gray-500">Dry run: nothing has been imported yet.</p>
+          )}
+          {SECTIONS.map(section => {
+            const entries = report[section.key];
+            if (entries.length === 0) return null;
+            return (
+              <div key={section.key} className="bg-white border border-gray-200 rounded-lg">
+                <div className="px-4 py-3 border-b border-gray-200 flex items-center space-x-2">
+                  <h4 className="font-semibold text-gray-900">
+                    {report.dryRun && section.dryRunTitle ? section.dryRunTitle : section.title}
+                  </h4>
+                  <Badge variant={section.key === "unparseable" || section.key === "failed" ? "destructive" : "secondary"}>
+                    {entries.length}
+                  </Badge>
+                </div>
+                {renderEntries(entries)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselPrevious,
+  CarouselNext,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { ArrowUp, ArrowDown } from "lucide-react";
+import type { Asset, AssetSlide } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CarouselSlidesProps {
+  asset: Asset;
+  slides: AssetSlide[];
+}
+
+function getSlideUrl(slide: AssetSlide) {
+  return `/api/assets/${slide.assetId}/slides/${slide.id}/stream`;
+}
+
+// Swipeable view of a carousel's slides, in order
+export function CarouselSlides({ asset, slides }: CarouselSlidesProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center px-16">
+      <Carousel setApi={setApi} className="w-full">
+        <CarouselContent>
+          {slides.map((slide, index) => (
+            <CarouselItem key={slide.id} className="h-80 flex items-center justify-center">
+              {slide.mimeType.startsWith('image/') ? (
+                <img
+                  src={getSlideUrl(slide)}
+                  alt={`${asset.filename} slide ${index + 1}`}
+                  className="max-w-full max-h-full object-contain"
+                />
+              ) : slide.mimeType.startsWith('video/') ? (
+                <video
+                  src={getSlideUrl(slide)}
+                  controls
+                  preload="metadata"
+                  className="max-w-full max-h-full bg-black"
+                />
+              ) : (
+                <p className="text-gray-600">Preview not available for {slide.originalName}</p>
+              )}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+      <p className="text-sm text-gray-500 mt-2">
+        Slide {current + 1} of {slides.length}
+      </p>
+    </div>
+  );
+}
+
+interface SlideOrderProps {
+  asset: Asset;
+  slides: AssetSlide[];
+  canEdit: boolean;
+}
+
+// The slide list in the details panel, with buttons to reorder it
+export function SlideOrder({ asset, slides, canEdit }: SlideOrderProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const reorderMutation = useMutation({
+    mutationFn: async (slideIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/assets/${asset.id}/slides`, { slideIds });
+      return response.json();
+    },
+    onSuccess: (reordered: AssetSlide[]) => {
+      queryClient.setQueryData(["/api/assets", asset.id, "slides"], reordered);
+    },
+    onError: (error) => {
+      toast({
+        title: "Reorder failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const moveSlide = (index: number, offset: number) => {
+    const slideIds = slides.map(slide => slide.id);
+    const [moved] = slideIds.splice(index, 1);
+    slideIds.splice(index + offset, 0, moved);
+    reorderMutation.mutate(slideIds);
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-600">Slides ({slides.length})</label>
+      <ol className="mt-1 space-y-1">
+        {slides.map((slide, index) => (
+          <li key={slide.id} className="flex items-center text-sm">
+            <span className="flex-1 min-w-0 truncate text-gray-900" title={slide.originalName}>
+              {index + 1}. {slide.originalName}
+            </span>
+            {canEdit && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSlide(index, -1)}
+                  disabled={index === 0 || reorderMutation.isPending}
+                  className="h-6 px-1 text-gray-400 hover:text-gray-700"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSlide(index, 1)}
+                  disabled={index === slides.length - 1 || reorderMutation.isPending}
+                  className="h-6 px-1 text-gray-400 hover:text-gray-700"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
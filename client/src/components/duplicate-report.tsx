@@ -0,0 +1,193 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, Fingerprint, Loader2, Trash2 } from "lucide-react";
+import type { Asset, DuplicateGroup, NearDuplicateGroup } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+interface DuplicateTableProps {
+  assets: Asset[];
+  onTrash: (asset: Asset) => void;
+  isTrashing: boolean;
+}
+
+function DuplicateTable({ assets, onTrash, isTrashing }: DuplicateTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Original Name</TableHead>
+          <TableHead>Region</TableHead>
+          <TableHead>Uploaded</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {assets.map(asset => (
+          <TableRow key={asset.id}>
+            <TableCell className="font-medium">{asset.filename}</TableCell>
+            <TableCell className="text-gray-600">{asset.originalName}</TableCell>
+            <TableCell>{asset.region}</TableCell>
+            <TableCell>{formatDate(asset.uploadDate)}</TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onTrash(asset)}
+                disabled={isTrashing}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Move to trash"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function DuplicateReport() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ groups: DuplicateGroup[]; nearGroups: NearDuplicateGroup[]; unhashed: number }>({
+    queryKey: ["/api/admin/duplicates"]
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/duplicates/backfill");
+      return response.json();
+    },
+    onSuccess: (result: { hashed: number; failed: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/duplicates"] });
+      toast({
+        title: "Hashing finished",
+        description: `Hashed ${result.hashed} file(s)${result.failed > 0 ? `; ${result.failed} could not be read` : ""}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Hashing failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const trashMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/assets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({
+        title: "Moved to trash",
+        description: "The asset can be restored from the Trash view."
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleTrash = (asset: Asset) => {
+    if (window.confirm(`Move ${asset.filename} to the trash?`)) {
+      trashMutation.mutate(asset.id);
+    }
+  };
+
+  const groups = data?.groups ?? [];
+  const nearGroups = data?.nearGroups ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Duplicates</h3>
+          <p className="text-sm text-gray-500">
+            Assets whose files have identical content.
+            {!!data?.unhashed && ` ${data.unhashed} older asset(s) have not been hashed yet.`}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => backfillMutation.mutate()}
+          disabled={backfillMutation.isPending || !data?.unhashed}
+        >
+          {backfillMutation.isPending
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <Fingerprint className="mr-2 h-4 w-4" />}
+          Hash Older Files
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 bg-gray-200 rounded-lg animate-pulse" />
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-500">No duplicate files found.</p>
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.contentHash} className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center space-x-2">
+              <Badge variant="secondary">{group.assets.length} copies</Badge>
+              <span className="font-mono text-xs text-gray-500">{group.contentHash.slice(0, 16)}</span>
+            </div>
+            <DuplicateTable
+              assets={group.assets}
+              onTrash={handleTrash}
+              isTrashing={trashMutation.isPending}
+            />
+          </div>
+        ))
+      )}
+
+      {nearGroups.length > 0 && (
+        <>
+          <div className="pt-4">
+            <h3 className="text-lg font-semibold text-gray-900">Near Duplicates</h3>
+            <p className="text-sm text-gray-500">
+              Different files that look almost the same, such as re-exports of one design.
+            </p>
+          </div>
+          {nearGroups.map(group => (
+            <div key={group.assets[0].id} className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-4 py-3 border-b border-gray-200 flex items-center space-x-2">
+                <Badge variant="secondary">{group.assets.length} look-alikes</Badge>
+                <span className="text-xs text-gray-500">
+                  {group.maxDistance === 0 ? "Visually identical" : `Up to ${group.maxDistance} of 64 bits apart`}
+                </span>
+              </div>
+              <DuplicateTable
+                assets={group.assets}
+                onTrash={handleTrash}
+                isTrashing={trashMutation.isPending}
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Monitor, Smartphone } from "lucide-react";
+import type { EmailerPreview as EmailerPreviewData } from "@shared/schema";
+
+interface EmailerPreviewProps {
+  preview: EmailerPreviewData | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+// Common email client widths
+const VIEWPORT_WIDTHS = {
+  desktop: 640,
+  mobile: 375
+};
+
+const SAFE_LINK = /^(https?:|mailto:|tel:)/i;
+
+// Renders the emailer in a sandboxed iframe: no scripts, forms or access to
+// the app; links may only open in a new tab.
+export function EmailerPreview({ preview, isLoading, error }: EmailerPreviewProps) {
+  const [viewport, setViewport] = useState<keyof typeof VIEWPORT_WIDTHS>("desktop");
+
+  if (isLoading) {
+    return <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />;
+  }
+
+  if (!preview) {
+    return (
+      <p className="text-gray-600 px-6 text-center">
+        Preview not available{error ? `: ${error.message}` : ""}
+      </p>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex justify-center py-2 bg-white border-b border-gray-200">
+        <div className="flex bg-gray-100 rounded-lg p-1">
+          <Button
+            variant={viewport === "desktop" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setViewport("desktop")}
+            className="px-3 py-1"
+            title="Desktop width"
+          >
+            <Monitor className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={viewport === "mobile" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setViewport("mobile")}
+            className="px-3 py-1"
+            title="Mobile width"
+          >
+            <Smartphone className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto flex justify-center">
+        <iframe
+          title="Emailer preview"
+          srcDoc={preview.html}
+          sandbox="allow-popups allow-popups-to-escape-sandbox"
+          style={{ width: VIEWPORT_WIDTHS[viewport] }}
+          className="h-full bg-white border-x border-gray-200"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function EmailerDetails({ preview }: { preview: EmailerPreviewData }) {
+  return (
+    <>
+      <div>
+        <label className="text-sm font-medium text-gray-600">Subject</label>
+        <p className="text-gray-900">{preview.subject ?? "—"}</p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-600">Preheader</label>
+        <p className="text-gray-900">{preview.preheader ?? "—"}</p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-600">Links ({preview.links.length})</label>
+        <ul className="mt-1 space-y-1">
+          {preview.links.map(link => (
+            <li key={link.href} className="text-sm">
+              {/* Only ordinary links are clickable; anything else (e.g. javascript:) is shown as text */}
+              {SAFE_LINK.test(link.href) ? (
+                <a
+                  href={link.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline break-all"
+                >
+                  {link.text || link.href}
+                </a>
+              ) : (
+                <span className="text-gray-900 break-all">{link.text || link.href}</span>
+              )}
+              {link.text && <p className="text-xs text-gray-500 break-all">{link.href}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+}
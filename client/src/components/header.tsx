@@ -1,8 +1,11 @@
 import { Input } from "@/components/ui/input";
-import { Bell, Search, Database, Download } from "lucide-react";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Link } from "wouter";
+import { Bell, Search, Database, Download, LogOut, Shield } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canManageUsers } from "@shared/permissions";
 
 interface HeaderProps {
   searchQuery: string;
@@ -11,6 +14,7 @@ interface HeaderProps {
 
 export function Header({ searchQuery, onSearchChange }: HeaderProps) {
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
 
   const handleExportToExcel = async () => {
     try {
@@ -81,6 +85,13 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
               <Download className="h-4 w-4" />
               <span>Export Excel</span>
             </Button>
+            {user && canManageUsers(user) && (
+              <Link href="/admin">
+                <Button variant="ghost" size="sm" className="p-2 text-gray-600 hover:text-gray-900" title="Administration">
+                  <Shield className="h-5 w-5" />
+                </Button>
+              </Link>
+            )}
             <Button variant="ghost" size="sm" className="p-2 text-gray-600 hover:text-gray-900 relative">
               <Bell className="h-5 w-5" />
               <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
@@ -89,10 +100,19 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
             </Button>
             <div className="flex items-center space-x-2">
               <Avatar className="w-8 h-8">
-                <AvatarImage src="https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=32&h=32" />
-                <AvatarFallback>JA</AvatarFallback>
+                <AvatarFallback>{user?.username.slice(0, 2).toUpperCase()}</AvatarFallback>
               </Avatar>
-              <span className="text-sm font-medium text-gray-700">John Admin</span>
+              <span className="text-sm font-medium text-gray-700">{user?.username}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="p-2 text-gray-600 hover:text-gray-900"
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </div>
         </div>
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, Loader2, RefreshCw } from "lucide-react";
+import type {
+  ReconciliationFix,
+  ReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationReport as Report,
+} from "@shared/reconciliation";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const ISSUE_LABELS: Record<ReconciliationIssueType, string> = {
+  missing: "Missing file",
+  orphaned: "Orphaned file",
+  size_mismatch: "Size mismatch",
+  moved: "Moved out of tree",
+};
+
+const FIX_LABELS: Record<ReconciliationFix, string> = {
+  relink: "Re-link",
+  mark_missing: "Mark Missing",
+  import: "Import",
+  sync_size: "Update Size",
+  move_back: "Move Back",
+};
+
+export function ReconciliationReport() {
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<Report | null>({
+    queryKey: ["/api/admin/reconciliation"]
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/reconciliation");
+      return response.json();
+    },
+    onSuccess: (report: Report) => {
+      queryClient.setQueryData(["/api/admin/reconciliation"], report);
+      toast({
+        title: "Reconciliation finished",
+        description: `Found ${report.issues.length} issue${report.issues.length !== 1 ? 's' : ''}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reconciliation failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const fixMutation = useMutation({
+    mutationFn: async (fix: { issueId: string; fix: ReconciliationFix; targetKey?: string }) => {
+      const response = await apiRequest("POST", "/api/admin/reconciliation/fix", fix);
+      return response.json();
+    },
+    onSuccess: (report: Report) => {
+      queryClient.setQueryData(["/api/admin/reconciliation"], report);
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({ title: "Fix applied" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fix failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const formatFileSize = (bytes: number) => {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  };
+
+  const handleFix = (issue: ReconciliationIssue, fix: ReconciliationFix) => {
+    if (fix === "relink") {
+      const targetKey = relinkTargets[issue.id];
+      if (!targetKey) {
+        toast({ title: "Pick a file to re-link to", variant: "destructive" });
+        return;
+      }
+      fixMutation.mutate({ issueId: issue.id, fix, targetKey });
+    } else {
+      fixMutation.mutate({ issueId: issue.id, fix });
+    }
+  };
+
+  const describeIssue = (issue: ReconciliationIssue) => {
+    const filenames = Array.from(new Set(issue.records.map(record => record.filename)));
+    switch (issue.type) {
+      case "orphaned":
+        return issue.path;
+      case "size_mismatch":
+        return `${filenames.join(", ")}: recorded ${formatFileSize(issue.records[0].fileSize)}, stored ${formatFileSize(issue.actualSize!)}`;
+      default:
+        return filenames.join(", ");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Storage Reconciliation</h3>
+          <p className="text-sm text-gray-500">
+            {report
+              ? `Last run ${new Date(report.finishedAt).toLocaleString()} · ` +
+                report.providers
+                  .map(provider => provider.error
+                    ? `${provider.name}: ${provider.error}`
+                    : `${provider.name}: ${provider.fileCount} files`)
+                  .join(" · ")
+              : "Compare asset records with the files actually in storage."}
+          </p>
+        </div>
+        <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+          {runMutation.isPending
+            ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            : <RefreshCw className="mr-2 h-4 w-4" />}
+          Run Now
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 bg-gray-200 rounded-lg animate-pulse" />
+      ) : !report ? (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <p className="text-gray-500">The reconciliation job has not run yet.</p>
+        </div>
+      ) : report.issues.length === 0 ? (
+        <div className="text-center py-12 bg-white border border-gray-200 rounded-lg">
+          <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-500">Every record matches a stored file.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Issue</TableHead>
+                <TableHead>Storage</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Fix</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.issues.map(issue => (
+                <TableRow key={issue.id}>
+                  <TableCell>
+                    <Badge variant={issue.type === "missing" ? "destructive" : "secondary"}>
+                      {ISSUE_LABELS[issue.type]}
+                    </Badge>
+                    {issue.records.some(record => record.missingAt) && (
+                      <p className="text-xs text-gray-500 mt-1">Marked missing</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-gray-600">{issue.provider}</TableCell>
+                  <TableCell className="max-w-md">
+                    <p className="truncate" title={describeIssue(issue)}>{describeIssue(issue)}</p>
+                    {issue.importError && (
+                      <p className="text-xs text-red-600">{issue.importError}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      {issue.fixes.includes("relink") && (
+                        <Select
+                          value={relinkTargets[issue.id] ?? ""}
+                          onValueChange={key => setRelinkTargets(prev => ({ ...prev, [issue.id]: key }))}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue placeholder="Re-link to..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {issue.candidates!.map(file => (
+                              <SelectItem key={file.key} value={file.key}>{file.path}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {issue.fixes.map(fix => (
+                        <Button
+                          key={fix}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleFix(issue, fix)}
+                          disabled={fixMutation.isPending}
+                        >
+                          {FIX_LABELS[fix]}
+                        </Button>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
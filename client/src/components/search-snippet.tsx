@@ -0,0 +1,16 @@
+// Shows the metadata that matched a search, with the matched words marked.
+// The server wraps them in <mark> tags; the rest is rendered as plain text.
+export function SearchSnippet({ snippet }: { snippet: string | null | undefined }) {
+  if (!snippet?.includes("<mark>")) return null;
+
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/);
+  return (
+    <p className="text-xs text-gray-500 truncate" title={parts.join("")}>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">{part}</mark>
+          : part
+      )}
+    </p>
+  );
+}
@@ -9,9 +9,28 @@ import {
   Star, 
   Clock, 
   Settings, 
-  Grid3X3 
+  Grid3X3,
+  Trash2
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { canUpload } from "@shared/permissions";
+
+// Common brand colours; any other can be picked with the colour input
+const COLOR_PRESETS = [
+  { name: "Red", hex: "#dc2626" },
+  { name: "Orange", hex: "#ea580c" },
+  { name: "Yellow", hex: "#facc15" },
+  { name: "Green", hex: "#16a34a" },
+  { name: "Teal", hex: "#0d9488" },
+  { name: "Blue", hex: "#2563eb" },
+  { name: "Purple", hex: "#7c3aed" },
+  { name: "Pink", hex: "#db2777" },
+  { name: "Brown", hex: "#92400e" },
+  { name: "Black", hex: "#111111" },
+  { name: "Grey", hex: "#9ca3af" },
+  { name: "White", hex: "#ffffff" },
+];
 
 interface SidebarProps {
   onUploadClick: () => void;
@@ -21,6 +40,10 @@ interface SidebarProps {
     region: string;
     startDate: string;
     endDate: string;
+    orientation: string;
+    width: string;
+    height: string;
+    color: string;
   };
   onFilterChange: (key: string, value: string) => void;
   onClearFilters: () => void;
@@ -36,6 +59,7 @@ export function Sidebar({
   activeView,
   onViewChange 
 }: SidebarProps) {
+  const { user } = useAuth();
   const { data: stats } = useQuery({
     queryKey: ["/api/stats"],
     refetchInterval: 60000, // Refresh every minute
@@ -49,6 +73,7 @@ export function Sidebar({
     { id: "recent", label: "Recent Uploads", icon: Upload },
     { id: "favorites", label: "Favorites", icon: Star },
     { id: "versions", label: "Version History", icon: Clock },
+    { id: "trash", label: "Trash", icon: Trash2 },
     { id: "settings", label: "Settings", icon: Settings },
   ];
 
@@ -56,15 +81,17 @@ export function Sidebar({
     <aside className="w-80 bg-white shadow-lg border-r border-gray-200 overflow-y-auto">
       <div className="p-6">
         {/* Upload Section */}
-        <div className="mb-8">
-          <Button 
-            onClick={onUploadClick}
-            className="w-full bg-primary text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
-          >
-            <Plus className="h-4 w-4" />
-            <span>Upload Assets</span>
-          </Button>
-        </div>
+        {user && canUpload(user) && (
+          <div className="mb-8">
+            <Button 
+              onClick={onUploadClick}
+              className="w-full bg-primary text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Upload Assets</span>
+            </Button>
+          </div>
+        )}
 
         {/* Quick Stats */}
         <div className="mb-8">
@@ -175,6 +202,69 @@ export function Sidebar({
               </Select>
             </div>
             
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">
+                Dimensions
+              </Label>
+              <div className="space-y-2">
+                <Select value={filters.orientation} onValueChange={(value) => onFilterChange("orientation", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any Orientation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any Orientation</SelectItem>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                    <SelectItem value="square">Square</SelectItem>
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Width"
+                    value={filters.width}
+                    onChange={(e) => onFilterChange("width", e.target.value)}
+                  />
+                  <span className="text-gray-400">×</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Height"
+                    value={filters.height}
+                    onChange={(e) => onFilterChange("height", e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">
+                Color
+              </Label>
+              <div className="flex flex-wrap gap-2">
+                {COLOR_PRESETS.map(preset => (
+                  <button
+                    key={preset.hex}
+                    type="button"
+                    onClick={() => onFilterChange("color", filters.color === preset.hex ? "" : preset.hex)}
+                    className={`h-6 w-6 rounded-full border border-gray-300 ${
+                      filters.color === preset.hex ? 'ring-2 ring-primary ring-offset-1' : ''
+                    }`}
+                    style={{ backgroundColor: preset.hex }}
+                    title={preset.name}
+                  />
+                ))}
+                <input
+                  type="color"
+                  value={filters.color || "#000000"}
+                  onChange={(e) => onFilterChange("color", e.target.value)}
+                  className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent p-0"
+                  title="Custom color"
+                />
+              </div>
+            </div>
+            
             <Button 
               onClick={onClearFilters}
               variant="outline" 
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Asset, SimilarAsset } from "@shared/schema";
+
+interface SimilarAssetsProps {
+  asset: Asset;
+  onSelect: (asset: Asset) => void;
+}
+
+// Distance is the number of differing bits of a 64-bit perceptual hash
+const formatSimilarity = (distance: number) => `${Math.round((1 - distance / 64) * 100)}% match`;
+
+// Assets that look like this one, closest first
+export function SimilarAssets({ asset, onSelect }: SimilarAssetsProps) {
+  const { data: similar = [], isLoading, error } = useQuery<SimilarAsset[]>({
+    queryKey: ["/api/assets", asset.id, "similar"]
+  });
+
+  if (isLoading) {
+    return <div className="w-full h-full bg-gray-200 animate-pulse" />;
+  }
+
+  if (error || similar.length === 0) {
+    return (
+      <p className="text-gray-600 px-6 text-center">
+        {error ? error.message : "No visually similar assets found."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-4">
+      <div className="grid grid-cols-3 gap-3">
+        {similar.map(result => (
+          <button
+            key={result.id}
+            type="button"
+            onClick={() => onSelect(result)}
+            className="text-left bg-white border border-gray-200 rounded-lg overflow-hidden hover:border-primary"
+            title={result.filename}
+          >
+            <div className="h-28 bg-gray-100 flex items-center justify-center">
+              {result.thumbnailUrl ? (
+                <img
+                  src={result.thumbnailUrl}
+                  alt={result.filename}
+                  className="max-w-full max-h-full object-contain"
+                />
+              ) : (
+                <span className="text-2xl">📄</span>
+              )}
+            </div>
+            <div className="px-2 py-1">
+              <p className="text-xs font-medium text-gray-900 truncate">{result.filename}</p>
+              <p className="text-xs text-gray-500">{formatSimilarity(result.distance)}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Trash2, XCircle } from "lucide-react";
+import { Asset } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canDeleteAsset } from "@shared/permissions";
+
+interface TrashViewProps {
+  assets: Asset[];
+  retentionDays: number;
+  isLoading?: boolean;
+}
+
+export function TrashView({ assets, retentionDays, isLoading }: TrashViewProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/assets/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: (asset: Asset) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      toast({
+        title: "Asset restored",
+        description: `${asset.filename} is back in the library.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/assets/${id}/permanent`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({
+        title: "Asset deleted",
+        description: "The asset and its files have been permanently deleted."
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const getDaysLeft = (deletedAt: Date | string) => {
+    const purgeAt = new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  const handlePurge = (asset: Asset) => {
+    if (window.confirm(`Permanently delete ${asset.filename} and all of its versions? This action cannot be undone.`)) {
+      purgeMutation.mutate(asset.id);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-64 bg-gray-200 rounded-lg animate-pulse" />;
+  }
+
+  if (assets.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+        <p className="text-gray-500">
+          Deleted assets stay here for {retentionDays} days before they are removed for good.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <div className="px-4 py-3 border-b border-gray-200">
+        <p className="text-sm text-gray-500">
+          Items in the trash are permanently deleted after {retentionDays} days.
+        </p>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Region</TableHead>
+            <TableHead>Deleted</TableHead>
+            <TableHead>Deleted Forever In</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {assets.map(asset => {
+            const canManage = !!user && canDeleteAsset(user, asset);
+            const daysLeft = getDaysLeft(asset.deletedAt!);
+
+            return (
+              <TableRow key={asset.id}>
+                <TableCell>
+                  <p className="font-medium text-gray-900 truncate max-w-xs" title={asset.filename}>
+                    {asset.filename}
+                  </p>
+                  <p className="text-xs text-gray-500">{asset.category}</p>
+                </TableCell>
+                <TableCell>{asset.assetType}</TableCell>
+                <TableCell>{asset.region}</TableCell>
+                <TableCell>{formatDateTime(asset.deletedAt!)}</TableCell>
+                <TableCell className={daysLeft <= 3 ? "text-red-600" : "text-gray-600"}>
+                  {daysLeft} day{daysLeft !== 1 ? 's' : ''}
+                </TableCell>
+                <TableCell className="text-right">
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(asset.id)}
+                        disabled={restoreMutation.isPending}
+                        className="p-1 text-gray-400 hover:text-primary"
+                        title="Restore"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePurge(asset)}
+                        disabled={purgeMutation.isPending}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete forever"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
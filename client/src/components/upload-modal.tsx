@@ -1,13 +1,31 @@
 import { useState, useCallback, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CloudUpload, X, Upload } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { Progress } from "@/components/ui/progress";
+import { CloudUpload, X, Upload, Pause, Play, RotateCw, ArrowUp, ArrowDown } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRegionAccess, canEditAsset } from "@shared/permissions";
+import { REGIONS, type Asset } from "@shared/schema";
+import {
+  ResumableUpload,
+  type DuplicateAction,
+  type DuplicateUpload,
+  type UploadProgress,
+} from "@/lib/resumable-upload";
 
 interface UploadModalProps {
   isOpen: boolean;
@@ -18,6 +36,11 @@ interface UploadFile extends File {
   preview?: string;
 }
 
+// A sent file that matches existing assets, waiting on the user's choice
+interface PendingDuplicate extends DuplicateUpload {
+  upload: ResumableUpload;
+}
+
 export function UploadModal({ isOpen, onClose }: UploadModalProps) {
   const [files, setFiles] = useState<UploadFile[]>([]);
   const [formData, setFormData] = useState({
@@ -29,43 +52,22 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
     tags: ""
   });
   const [isDragActive, setIsDragActive] = useState(false);
+  const [duplicates, setDuplicates] = useState<PendingDuplicate[]>([]);
+  const [progress, setProgress] = useState<Map<File, UploadProgress>>(new Map());
+  const uploadsRef = useRef(new Map<File, ResumableUpload>());
+  const linkedRef = useRef<Asset[]>([]);
+  const completingCarouselRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const allowedRegions = REGIONS.filter(region => !!user && hasRegionAccess(user, region));
 
-  const uploadMutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      const response = await fetch("/api/assets/upload", {
-        method: "POST",
-        body: data,
-        credentials: "include",
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Upload failed: ${errorText}`);
-      }
-      
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Upload successful",
-        description: "Assets have been uploaded successfully."
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      handleClose();
-    },
-    onError: (error) => {
-      toast({
-        title: "Upload failed",
-        description: error.message,
-        variant: "destructive"
-      });
-    }
-  });
+  const isUploading = Array.from(progress.values())
+    .some(fileProgress => fileProgress.status === "uploading" || fileProgress.status === "retrying");
+  // A carousel's files are its slides, uploaded together in the order shown
+  const isCarousel = formData.assetType === "Carousel";
 
   const handleFileSelect = useCallback((selectedFiles: File[]) => {
     const newFiles = selectedFiles.map(file => {
@@ -108,10 +110,142 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
       if (file.preview) {
         URL.revokeObjectURL(file.preview);
       }
+      uploadsRef.current.get(file)?.cancel();
+      uploadsRef.current.delete(file);
       return prev.filter((_, i) => i !== index);
     });
   };
 
+  const moveFile = (index: number, offset: number) => {
+    setFiles(prev => {
+      const next = [...prev];
+      const [file] = next.splice(index, 1);
+      next.splice(index + offset, 0, file);
+      return next;
+    });
+  };
+
+  const getUpload = (file: UploadFile) => {
+    let upload = uploadsRef.current.get(file);
+    if (!upload) {
+      upload = new ResumableUpload(file, formData, fileProgress => {
+        setProgress(prev => new Map(prev).set(file, fileProgress));
+      });
+      uploadsRef.current.set(file, upload);
+    }
+    return upload;
+  };
+
+  // Sends a file unless it has already become an asset; resolves to whether
+  // it's ready to complete
+  const sendUpload = async (upload: ResumableUpload) =>
+    upload.status !== "complete" && await upload.upload();
+
+  // Sends a file and turns it into an asset
+  const runUpload = async (upload: ResumableUpload): Promise<PendingDuplicate[]> =>
+    await sendUpload(upload) ? await completeUpload(upload) : [];
+
+  // Turns a sent file into an asset. Files identical to existing assets are
+  // returned so the user can decide what to do with them.
+  const completeUpload = async (upload: ResumableUpload): Promise<PendingDuplicate[]> => {
+    try {
+      const result = await upload.complete();
+      if ("duplicates" in result) {
+        return result.duplicates.map(duplicate => ({ ...duplicate, upload }));
+      }
+      linkedRef.current.push(...result.linked);
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: `${upload.file.name}: ${(error as Error).message}`,
+        variant: "destructive"
+      });
+    }
+    return [];
+  };
+
+  // Makes the carousel once every slide has been sent. Called as each slide
+  // finishes; only a call that finds them all sent goes ahead.
+  const completeCarousel = async () => {
+    const uploads = files.map(getUpload);
+    if (completingCarouselRef.current || !uploads.every(upload => upload.isUploaded)) {
+      return;
+    }
+
+    completingCarouselRef.current = true;
+    try {
+      await ResumableUpload.completeCarousel(uploads);
+      finishIfDone();
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      completingCarouselRef.current = false;
+    }
+  };
+
+  // Closes the modal once every file has become an asset
+  const finishIfDone = () => {
+    const uploads = Array.from(uploadsRef.current.values());
+    if (uploads.length === 0 || uploads.some(upload => upload.status !== "complete")) {
+      return;
+    }
+
+    const linked = linkedRef.current;
+    toast({
+      title: "Upload successful",
+      description: linked.length > 0
+        ? `Uploaded ${uploads.length - linked.length} asset(s); ${linked.length} already existed: ${linked.map(asset => asset.filename).join(", ")}.`
+        : "Assets have been uploaded successfully."
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    handleClose();
+  };
+
+  const settle = (found: PendingDuplicate[]) => {
+    if (found.length > 0) {
+      setDuplicates(prev => [...prev, ...found]);
+    } else {
+      finishIfDone();
+    }
+  };
+
+  const handleResume = async (file: UploadFile) => {
+    if (isCarousel) {
+      if (await getUpload(file).upload()) await completeCarousel();
+      return;
+    }
+    settle(await runUpload(getUpload(file)));
+  };
+
+  const handleDuplicateAction = async (action: DuplicateAction) => {
+    const pending = duplicates;
+    setDuplicates([]);
+
+    for (const { upload } of pending) {
+      try {
+        const result = await upload.complete(action);
+        if (!("duplicates" in result)) {
+          linkedRef.current.push(...result.linked);
+        }
+      } catch (error) {
+        toast({
+          title: "Upload failed",
+          description: `${upload.file.name}: ${(error as Error).message}`,
+          variant: "destructive"
+        });
+      }
+    }
+    finishIfDone();
+  };
+
+  const canVersionDuplicates = !!user &&
+    duplicates.every(duplicate => canEditAsset(user, duplicate.assets[0]));
+
   const handleSubmit = async () => {
     if (files.length === 0) {
       toast({
@@ -131,23 +265,31 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
       return;
     }
 
-    const uploadData = new FormData();
-    files.forEach(file => {
-      uploadData.append('files', file);
-    });
-    
-    Object.entries(formData).forEach(([key, value]) => {
-      uploadData.append(key, value);
-    });
-
-    console.log('Uploading files:', files.length);
-    console.log('Form data:', formData);
+    if (isCarousel) {
+      await Promise.all(files.map(file => getUpload(file).upload()));
+      await completeCarousel();
+      return;
+    }
 
-    uploadMutation.mutate(uploadData);
+    // Files are sent in parallel but made into assets one at a time, in
+    // order, so each takes the next version number
+    const uploads = files.map(getUpload);
+    const sent = await Promise.all(uploads.map(sendUpload));
+    const found: PendingDuplicate[] = [];
+    for (let index = 0; index < uploads.length; index++) {
+      if (sent[index]) found.push(...await completeUpload(uploads[index]));
+    }
+    settle(found);
   };
 
   const handleClose = () => {
+    // Unfinished uploads are abandoned along with what the server received
+    uploadsRef.current.forEach(upload => upload.cancel().catch(() => {}));
+    uploadsRef.current = new Map();
+    linkedRef.current = [];
+    setProgress(new Map());
     setFiles([]);
+    setDuplicates([]);
     setFormData({
       category: "",
       assetType: "",
@@ -159,6 +301,24 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
     onClose();
   };
 
+  const describeProgress = (fileProgress: UploadProgress) => {
+    const percent = Math.floor((fileProgress.bytesUploaded / fileProgress.bytesTotal) * 100);
+    switch (fileProgress.status) {
+      case "uploading":
+        return fileProgress.bytesUploaded === fileProgress.bytesTotal ? "Processing..." : `${percent}%`;
+      case "retrying":
+        return `Connection lost, retrying... (${percent}%)`;
+      case "paused":
+        return `Paused (${percent}%)`;
+      case "error":
+        return fileProgress.error ?? "Upload failed";
+      case "complete":
+        return "Uploaded";
+      default:
+        return "Waiting...";
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" aria-describedby="upload-description">
@@ -182,7 +342,7 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".jpeg,.jpg,.png,.pdf,.mp4,.docx"
+              accept=".jpeg,.jpg,.png,.pdf,.mp4,.docx,.html,.htm,.zip"
               onChange={handleFileInputChange}
               className="hidden"
             />
@@ -193,7 +353,7 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             <p className="text-gray-500 mb-4">or click to browse files</p>
             <Button variant="outline" type="button">Browse Files</Button>
             <p className="text-xs text-gray-400 mt-3">
-              Supported formats: JPG, PNG, PDF, MP4, DOCX (Max size: 50MB)
+              Supported formats: JPG, PNG, PDF, MP4, DOCX, HTML/ZIP emailers (Max size: 2GB)
             </p>
           </div>
 
@@ -234,10 +394,9 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
                   <SelectValue placeholder="Select region" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="North">North</SelectItem>
-                  <SelectItem value="South">South</SelectItem>
-                  <SelectItem value="East">East</SelectItem>
-                  <SelectItem value="West">West</SelectItem>
+                  {allowedRegions.map(region => (
+                    <SelectItem key={region} value={region}>{region}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -276,33 +435,112 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
           {/* File Preview */}
           {files.length > 0 && (
             <div>
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Files to Upload</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">{isCarousel ? "Slides" : "Files to Upload"}</h3>
+              {isCarousel && (
+                <p className="text-sm text-gray-500 -mt-2 mb-4">
+                  These files will be uploaded as one carousel, in this order.
+                </p>
+              )}
               <div className="space-y-3">
-                {files.map((file, index) => (
-                  <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex items-center space-x-3">
-                      {file.preview ? (
-                        <img src={file.preview} alt={file.name} className="w-12 h-12 object-cover rounded" />
-                      ) : (
-                        <div className="w-12 h-12 bg-gray-200 rounded flex items-center justify-center">
-                          <Upload className="h-6 w-6 text-gray-400" />
+                {files.map((file, index) => {
+                  const fileProgress = progress.get(file);
+                  return (
+                    <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3 flex-1 min-w-0">
+                        {file.preview ? (
+                          <img src={file.preview} alt={file.name} className="w-12 h-12 object-cover rounded" />
+                        ) : (
+                          <div className="w-12 h-12 bg-gray-200 rounded flex items-center justify-center">
+                            <Upload className="h-6 w-6 text-gray-400" />
+                          </div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900 truncate">
+                            {isCarousel && <span className="text-gray-500 mr-1">Slide {index + 1}:</span>}
+                            {file.name}
+                          </p>
+                          <p className="text-sm text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                          {fileProgress && (
+                            <div className="mt-1 space-y-1">
+                              <Progress value={(fileProgress.bytesUploaded / fileProgress.bytesTotal) * 100} className="h-2" />
+                              <p className={`text-xs ${fileProgress.status === "error" ? "text-red-600" : "text-gray-500"}`}>
+                                {describeProgress(fileProgress)}
+                              </p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                      <div>
-                        <p className="font-medium text-gray-900">{file.name}</p>
-                        <p className="text-sm text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                      </div>
+                      <div className="flex items-center space-x-1 ml-3">
+                        {isCarousel && progress.size === 0 && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => moveFile(index, -1)}
+                              disabled={index === 0}
+                              className="text-gray-400 hover:text-gray-700"
+                              title="Move up"
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => moveFile(index, 1)}
+                              disabled={index === files.length - 1}
+                              className="text-gray-400 hover:text-gray-700"
+                              title="Move down"
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {(fileProgress?.status === "uploading" || fileProgress?.status === "retrying") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => uploadsRef.current.get(file)?.pause()}
+                            className="text-gray-400 hover:text-gray-700"
+                            title="Pause"
+                          >
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {fileProgress?.status === "paused" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleResume(file)}
+                            className="text-gray-400 hover:text-gray-700"
+                            title="Resume"
+                          >
+                            <Play className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {fileProgress?.status === "error" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleResume(file)}
+                            className="text-gray-400 hover:text-gray-700"
+                            title="Retry"
+                          >
+                            <RotateCw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeFile(index)}
+                          disabled={fileProgress?.status === "complete"}
+                          className="text-gray-400 hover:text-red-500"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeFile(index)}
-                      className="text-gray-400 hover:text-red-500"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
@@ -314,10 +552,10 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             </Button>
             <Button 
               onClick={handleSubmit}
-              disabled={uploadMutation.isPending || files.length === 0}
+              disabled={isUploading || files.length === 0}
               className="bg-primary hover:bg-blue-700"
             >
-              {uploadMutation.isPending ? (
+              {isUploading ? (
                 <>
                   <Upload className="mr-2 h-4 w-4 animate-spin" />
                   Uploading...
@@ -331,6 +569,44 @@ export function UploadModal({ isOpen, onClose }: UploadModalProps) {
             </Button>
           </div>
         </div>
+
+        <AlertDialog open={duplicates.length > 0} onOpenChange={open => !open && setDuplicates([])}>
+          <AlertDialogContent className="max-w-2xl">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Already in the library</AlertDialogTitle>
+              <AlertDialogDescription>
+                {duplicates.length === 1
+                  ? "This file is identical to an existing asset."
+                  : `${duplicates.length} of these files are identical to existing assets.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {duplicates.map(duplicate => (
+                <div key={duplicate.originalName} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <p className="font-medium text-gray-900">{duplicate.originalName}</p>
+                  <p className="text-gray-500">
+                    Matches {duplicate.assets[0].filename}
+                    {duplicate.assets.length > 1 && ` and ${duplicate.assets.length - 1} more`}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button variant="outline" onClick={() => handleDuplicateAction("link")}>
+                Use Existing
+              </Button>
+              {canVersionDuplicates && (
+                <Button variant="outline" onClick={() => handleDuplicateAction("version")}>
+                  Upload as New Version
+                </Button>
+              )}
+              <Button onClick={() => handleDuplicateAction("upload")}>
+                Upload Anyway
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </DialogContent>
     </Dialog>
   );
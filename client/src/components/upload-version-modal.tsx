@@ -0,0 +1,134 @@
+import { useState, useRef } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CloudUpload, Upload } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Asset } from "@shared/schema";
+
+interface UploadVersionModalProps {
+  asset: Asset;
+  isOpen: boolean;
+  onClose: () => void;
+  onUploaded: (asset: Asset) => void;
+}
+
+export function UploadVersionModal({ asset, isOpen, onClose, onUploaded }: UploadVersionModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const uploadVersionMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await fetch(`/api/assets/${asset.id}/versions`, {
+        method: "POST",
+        body: data,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Upload failed: ${errorText}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: (updatedAsset: Asset) => {
+      toast({
+        title: "New version uploaded",
+        description: `${updatedAsset.filename} is now the current version.`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      handleClose();
+      onUploaded(updatedAsset);
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSubmit = () => {
+    if (!file) return;
+
+    const uploadData = new FormData();
+    uploadData.append('file', file);
+    uploadData.append('note', note);
+    uploadVersionMutation.mutate(uploadData);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg" aria-describedby="upload-version-description">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Upload New Version</DialogTitle>
+          <p id="upload-version-description" className="text-sm text-gray-500">
+            Replaces the file of {asset.filename}. The current file stays in the version history.
+          </p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="p-6 text-center rounded-xl cursor-pointer border-2 border-dashed border-gray-300 hover:border-primary transition-all"
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".jpeg,.jpg,.png,.pdf,.mp4,.docx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+            <CloudUpload className="mx-auto h-10 w-10 text-gray-400 mb-2" />
+            {file ? (
+              <>
+                <p className="font-medium text-gray-900">{file.name}</p>
+                <p className="text-sm text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+              </>
+            ) : (
+              <p className="text-gray-500">Click to choose the replacement file</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="version-note">Note</Label>
+            <Textarea
+              id="version-note"
+              placeholder="What changed in this version?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!file || uploadVersionMutation.isPending}
+              className="bg-primary hover:bg-blue-700"
+            >
+              <Upload className={`mr-2 h-4 w-4 ${uploadVersionMutation.isPending ? 'animate-spin' : ''}`} />
+              {uploadVersionMutation.isPending ? "Uploading..." : "Upload Version"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
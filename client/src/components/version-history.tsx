@@ -0,0 +1,210 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Clock, Download, File, RotateCcw } from "lucide-react";
+import { Asset, AssetVersionWithUploader } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canEditAsset } from "@shared/permissions";
+
+interface VersionHistoryProps {
+  assets: Asset[];
+  selectedAssetId: string | null;
+  onSelectAsset: (assetId: string) => void;
+  isLoading?: boolean;
+}
+
+export function VersionHistory({
+  assets,
+  selectedAssetId,
+  onSelectAsset,
+  isLoading
+}: VersionHistoryProps) {
+  const { data: versions = [], isLoading: isLoadingVersions } = useQuery<AssetVersionWithUploader[]>({
+    queryKey: ["/api/assets", selectedAssetId, "versions"],
+    enabled: !!selectedAssetId
+  });
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: AssetVersionWithUploader) => {
+      const response = await apiRequest("POST", `/api/assets/${version.assetId}/versions/${version.id}/restore`);
+      return response.json();
+    },
+    onSuccess: (asset: Asset) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({
+        title: "Version restored",
+        description: `${asset.filename} is now the current version.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const selectedAsset = assets.find(asset => asset.id === selectedAssetId);
+  const canRestore = !!user && !!selectedAsset && canEditAsset(user, selectedAsset);
+
+  const formatFileSize = (bytes: number) => {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  };
+
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+  };
+
+  const handleDownload = (version: AssetVersionWithUploader) => {
+    window.location.href = `/api/assets/${version.assetId}/versions/${version.id}/download`;
+  };
+
+  const handleRestore = (version: AssetVersionWithUploader) => {
+    if (window.confirm(`Make V${version.version} the current version? This is recorded as a new version.`)) {
+      restoreMutation.mutate(version);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-6">
+        <div className="w-80 space-y-2">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div key={i} className="h-14 bg-gray-200 rounded-lg animate-pulse" />
+          ))}
+        </div>
+        <div className="flex-1 h-64 bg-gray-200 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-6">
+      {/* Asset picker */}
+      <div className="w-80 space-y-2">
+        {assets.length === 0 && (
+          <p className="text-sm text-gray-500">No assets match the current filters.</p>
+        )}
+        {assets.map(asset => (
+          <button
+            key={asset.id}
+            onClick={() => onSelectAsset(asset.id)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+              asset.id === selectedAssetId
+                ? "border-blue-600 bg-blue-50"
+                : "border-gray-200 bg-white hover:border-gray-300"
+            }`}
+          >
+            <p className="text-sm font-medium text-gray-900 truncate" title={asset.filename}>
+              {asset.filename}
+            </p>
+            <p className="text-xs text-gray-500">
+              V{asset.version} · {asset.assetType} · {asset.region}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Revisions of the selected asset */}
+      <div className="flex-1 bg-white border border-gray-200 rounded-lg">
+        {!selectedAsset ? (
+          <div className="text-center py-12">
+            <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Select an asset</h3>
+            <p className="text-gray-500">Pick an asset to see every revision of its file.</p>
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900 truncate">{selectedAsset.filename}</h3>
+              <p className="text-sm text-gray-500">
+                {versions.length} revision{versions.length !== 1 ? 's' : ''}
+              </p>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Uploaded By</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingVersions && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500">
+                      Loading revisions...
+                    </TableCell>
+                  </TableRow>
+                )}
+                {versions.map(version => (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">V{version.version}</span>
+                        {version.version === selectedAsset.version && (
+                          <Badge variant="secondary" className="text-xs">Current</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDateTime(version.createdAt)}</TableCell>
+                    <TableCell>{version.uploaderName ?? "Unknown"}</TableCell>
+                    <TableCell>{formatFileSize(version.fileSize)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-1 text-gray-600">
+                        <File className="h-3 w-3" />
+                        <span>{version.mimeType}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-gray-600">{version.note || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {canRestore && version.version !== selectedAsset.version && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestore(version)}
+                          disabled={restoreMutation.isPending}
+                          className="p-1 text-gray-400 hover:text-primary"
+                          title="Restore this version"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(version)}
+                        className="p-1 text-gray-400 hover:text-primary"
+                        title="Download this version"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
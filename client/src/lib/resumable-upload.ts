@@ -0,0 +1,205 @@
+import type { Asset, UploadFields } from "@shared/schema";
+
+// Client for the resumable upload API (/api/uploads). The file is sent in
+// chunks; after a failed chunk the upload asks the server how far it got and
+// carries on from there, backing off between attempts.
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_RETRIES = 5;
+
+export type UploadStatus = "pending" | "uploading" | "retrying" | "paused" | "error" | "complete";
+
+export interface UploadProgress {
+  status: UploadStatus;
+  bytesUploaded: number;
+  bytesTotal: number;
+  error?: string;
+}
+
+// A file whose content is already in the library
+export interface DuplicateUpload {
+  originalName: string;
+  contentHash: string;
+  assets: Asset[];
+}
+
+export type DuplicateAction = "link" | "version" | "upload";
+
+export type UploadResult =
+  | { duplicates: DuplicateUpload[] }
+  | { assets: Asset[]; linked: Asset[] };
+
+// A response the server will keep giving however often it is retried
+class UploadRejectedError extends Error {}
+
+export class ResumableUpload {
+  private sessionId: string | null = null;
+  private offset = 0;
+  private controller: AbortController | null = null;
+  private cancelled = false;
+  private progress: UploadProgress;
+
+  constructor(
+    readonly file: File,
+    private fields: UploadFields,
+    private onProgress: (progress: UploadProgress) => void,
+  ) {
+    this.progress = { status: "pending", bytesUploaded: 0, bytesTotal: file.size };
+  }
+
+  get status(): UploadStatus {
+    return this.progress.status;
+  }
+
+  // The server has every byte, though no asset has been made from it yet
+  get isUploaded(): boolean {
+    return this.sessionId !== null && this.offset >= this.file.size;
+  }
+
+  // Sends the rest of the file. Resolves to true once the server has every
+  // byte, or false if the upload was paused or gave up.
+  async upload(): Promise<boolean> {
+    this.update({ status: "uploading", error: undefined });
+    let retries = 0;
+
+    while (true) {
+      try {
+        if (!this.sessionId) await this.createSession();
+        if (this.offset >= this.file.size) return true;
+        await this.sendChunk();
+        retries = 0;
+      } catch (error) {
+        if (this.isStopped()) return false;
+        if (error instanceof UploadRejectedError || ++retries > MAX_RETRIES) {
+          this.update({ status: "error", error: (error as Error).message });
+          return false;
+        }
+
+        this.update({ status: "retrying" });
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (retries - 1)));
+        if (this.isStopped()) return false;
+        await this.syncOffset().catch(() => {});
+        this.update({ status: "uploading" });
+      }
+    }
+  }
+
+  pause() {
+    if (this.status !== "uploading" && this.status !== "retrying") return;
+    this.update({ status: "paused" });
+    this.controller?.abort();
+  }
+
+  // Turns the uploaded file into an asset. Files identical to an existing
+  // asset come back as duplicates until a duplicateAction is given.
+  async complete(duplicateAction?: DuplicateAction): Promise<UploadResult> {
+    const response = await fetch(`/api/uploads/${this.sessionId}/complete`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ duplicateAction }),
+      credentials: "include",
+    });
+    const body = await response.json();
+
+    if (response.status === 409 && body.duplicates) {
+      return { duplicates: body.duplicates };
+    }
+    if (!response.ok) {
+      this.update({ status: "error", error: body.message });
+      throw new Error(body.message);
+    }
+
+    this.update({ status: "complete" });
+    return body;
+  }
+
+  // Turns finished uploads, in slide order, into one Carousel asset
+  static async completeCarousel(uploads: ResumableUpload[]): Promise<Asset> {
+    const response = await fetch("/api/uploads/carousel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionIds: uploads.map(upload => upload.sessionId) }),
+      credentials: "include",
+    });
+    const body = await response.json();
+
+    const status = response.ok ? "complete" : "error";
+    uploads.forEach(upload => upload.update({ status, error: response.ok ? undefined : body.message }));
+    if (!response.ok) {
+      throw new Error(body.message);
+    }
+    return body.assets[0];
+  }
+
+  // Abandons the upload and discards what the server received
+  async cancel() {
+    this.cancelled = true;
+    this.controller?.abort();
+    if (this.sessionId && this.status !== "complete") {
+      await fetch(`/api/uploads/${this.sessionId}`, { method: "DELETE", credentials: "include" });
+    }
+  }
+
+  private async createSession() {
+    const response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        filename: this.file.name,
+        mimeType: this.file.type || "application/octet-stream",
+        size: this.file.size,
+        fields: this.fields,
+      }),
+      credentials: "include",
+    });
+    await this.throwIfFailed(response);
+    this.sessionId = (await response.json()).id;
+  }
+
+  private async sendChunk() {
+    this.controller = new AbortController();
+    const response = await fetch(`/api/uploads/${this.sessionId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(this.offset),
+      },
+      body: this.file.slice(this.offset, this.offset + CHUNK_SIZE),
+      signal: this.controller.signal,
+      credentials: "include",
+    });
+
+    // Out of step with the server (e.g. a chunk landed but its response
+    // was lost); carry on from the server's offset
+    if (response.status !== 409) await this.throwIfFailed(response);
+    this.setOffset(Number(response.headers.get("Upload-Offset")));
+  }
+
+  private async syncOffset() {
+    const response = await fetch(`/api/uploads/${this.sessionId}`, { credentials: "include" });
+    await this.throwIfFailed(response);
+    this.setOffset(Number(response.headers.get("Upload-Offset")));
+  }
+
+  private async throwIfFailed(response: Response) {
+    if (response.ok) return;
+    const message = (await response.json().catch(() => null))?.message ?? response.statusText;
+    // Server errors may clear up; anything else won't
+    throw response.status >= 500 ? new Error(message) : new UploadRejectedError(message);
+  }
+
+  // Paused or cancelled while a request or retry delay was outstanding
+  private isStopped() {
+    return this.status === "paused" || this.cancelled;
+  }
+
+  private setOffset(offset: number) {
+    this.offset = offset;
+    this.update({ bytesUploaded: offset });
+  }
+
+  private update(changes: Partial<UploadProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    this.onProgress(this.progress);
+  }
+}
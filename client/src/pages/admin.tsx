@@ -0,0 +1,55 @@
+import { Link, Redirect } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Shield } from "lucide-react";
+import { ReconciliationReport } from "@/components/reconciliation-report";
+import { BulkImport } from "@/components/bulk-import";
+import { DuplicateReport } from "@/components/duplicate-report";
+import { useAuth } from "@/hooks/use-auth";
+import { canManageUsers } from "@shared/permissions";
+
+export default function AdminPage() {
+  const { user } = useAuth();
+
+  if (!user || !canManageUsers(user)) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-50">
+        <div className="flex items-center justify-between px-6 py-4">
+          <div className="flex items-center space-x-4">
+            <Shield className="text-primary h-6 w-6" />
+            <h1 className="text-xl font-semibold text-gray-900">Administration</h1>
+          </div>
+          <Link href="/">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Assets
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="p-6">
+        <Tabs defaultValue="reconciliation">
+          <TabsList>
+            <TabsTrigger value="reconciliation">Storage Reconciliation</TabsTrigger>
+            <TabsTrigger value="import">Bulk Import</TabsTrigger>
+            <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          </TabsList>
+          <TabsContent value="reconciliation" className="mt-6">
+            <ReconciliationReport />
+          </TabsContent>
+          <TabsContent value="import" className="mt-6">
+            <BulkImport />
+          </TabsContent>
+          <TabsContent value="duplicates" className="mt-6">
+            <DuplicateReport />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
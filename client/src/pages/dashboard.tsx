@@ -8,10 +8,14 @@ import { AssetGrid } from "@/components/asset-grid";
 import { AssetList } from "@/components/asset-list";
 import { UploadModal } from "@/components/upload-modal";
 import { AssetPreviewModal } from "@/components/asset-preview-modal";
+import { VersionHistory } from "@/components/version-history";
+import { TrashView } from "@/components/trash-view";
 import { Grid3X3, List, FileSpreadsheet, ListTodo } from "lucide-react";
 import { Asset } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { canUpload, canDeleteAsset } from "@shared/permissions";
 
 export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -20,12 +24,19 @@ export default function Dashboard() {
     assetType: "all", 
     region: "all",
     startDate: "",
-    endDate: ""
+    endDate: "",
+    orientation: "all",
+    width: "",
+    height: "",
+    color: ""
   });
   const [sortBy, setSortBy] = useState("date");
   const [viewMode, setViewMode] = useState("grid");
   const [activeView, setActiveView] = useState("all");
+  const [versionAssetId, setVersionAssetId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  // Cursor of each page visited so far; the first page has none
+  const [pageCursors, setPageCursors] = useState<string[]>([""]);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
   const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
@@ -34,30 +45,39 @@ export default function Dashboard() {
 
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const limit = 20;
 
+  // Query parameters for the current filters, search and sidebar view
+  const getFilterParams = () => {
+    const params = new URLSearchParams({
+      ...filters,
+      search: searchQuery,
+      view: activeView
+    });
+
+    // Remove empty filters and handle "all" values
+    Object.keys(filters).forEach(key => {
+      const value = filters[key as keyof typeof filters];
+      if (!value || value === "all") {
+        params.delete(key);
+      }
+    });
+
+    if (!searchQuery) params.delete('search');
+    return params;
+  };
+
   // Fetch assets
   const { data: assetsData, isLoading } = useQuery({
-    queryKey: ["/api/assets", filters, searchQuery, currentPage, sortBy, activeView],
+    queryKey: ["/api/assets", filters, searchQuery, pageCursors[currentPage], sortBy, activeView],
     queryFn: async () => {
-      const params = new URLSearchParams({
-        ...filters,
-        search: searchQuery,
-        limit: limit.toString(),
-        offset: (currentPage * limit).toString(),
-        sort: sortBy
-      });
-
-      // Remove empty filters and handle "all" values
-      Object.keys(filters).forEach(key => {
-        const value = filters[key as keyof typeof filters];
-        if (!value || value === "all") {
-          params.delete(key);
-        }
-      });
-
-      if (!searchQuery) params.delete('search');
+      const params = getFilterParams();
+      params.set('limit', limit.toString());
+      params.set('sort', sortBy);
+      // Cursors keep pages stable while new uploads arrive
+      if (pageCursors[currentPage]) params.set('cursor', pageCursors[currentPage]);
 
       const response = await fetch(`/api/assets?${params}`);
       if (!response.ok) throw new Error('Failed to fetch assets');
@@ -75,9 +95,36 @@ export default function Dashboard() {
     }
   });
 
+  const resetPaging = () => {
+    setCurrentPage(0);
+    setPageCursors([""]);
+  };
+
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
-    setCurrentPage(0);
+    resetPaging();
+  };
+
+  // Searching switches to best-match order; clearing the search switches back
+  const handleSearchChange = (query: string) => {
+    if (query && !searchQuery && sortBy === "date") {
+      setSortBy("relevance");
+    } else if (!query && sortBy === "relevance") {
+      setSortBy("date");
+    }
+    setSearchQuery(query);
+    resetPaging();
+  };
+
+  const handleSortChange = (sort: string) => {
+    setSortBy(sort);
+    resetPaging();
+  };
+
+  const handleNextPage = () => {
+    if (!assetsData?.nextCursor) return;
+    setPageCursors(prev => [...prev.slice(0, currentPage + 1), assetsData.nextCursor]);
+    setCurrentPage(prev => prev + 1);
   };
 
   const handleClearFilters = () => {
@@ -86,10 +133,13 @@ export default function Dashboard() {
       assetType: "all",
       region: "all", 
       startDate: "",
-      endDate: ""
+      endDate: "",
+      orientation: "all",
+      width: "",
+      height: "",
+      color: ""
     });
-    setSearchQuery("");
-    setCurrentPage(0);
+    handleSearchChange("");
   };
 
   const handlePreviewAsset = (asset: Asset) => {
@@ -98,7 +148,20 @@ export default function Dashboard() {
   };
 
   const handleDownloadAsset = (asset: Asset) => {
-    window.open(asset.driveLink, '_blank');
+    // Served as an attachment, so the browser saves it without leaving the page
+    window.location.href = `/api/assets/${asset.id}/download`;
+  };
+
+  const handleViewChange = (view: string) => {
+    setActiveView(view);
+    resetPaging();
+  };
+
+  const handleShowVersions = (asset: Asset) => {
+    setVersionAssetId(asset.id);
+    handleViewChange("versions");
+    setIsPreviewModalOpen(false);
+    setSelectedAsset(null);
   };
 
   const handleToggleFavorite = (asset: Asset) => {
@@ -123,10 +186,11 @@ export default function Dashboard() {
         });
         break;
       case 'download':
-        // TODO: Implement bulk download
+        // Streamed as a ZIP attachment, so the browser saves it without leaving the page
+        window.location.href = `/api/assets/export/zip?ids=${selectedAssets.join(',')}`;
         toast({
           title: "Bulk download",
-          description: `Downloading ${selectedAssets.length} assets.`
+          description: `Downloading ${selectedAssets.length} assets as a ZIP archive.`
         });
         break;
       case 'delete':
@@ -148,6 +212,11 @@ export default function Dashboard() {
     setShowBulkActions(false);
   };
 
+  const handleDownloadMatching = () => {
+    window.location.href = `/api/assets/export/zip?${getFilterParams()}`;
+    setShowBulkActions(false);
+  };
+
   const handleSelectAsset = (assetId: string) => {
     setSelectedAssets(prev => 
       prev.includes(assetId) 
@@ -195,10 +264,13 @@ export default function Dashboard() {
   const assets = assetsData?.assets || [];
   const totalCount = assetsData?.totalCount || 0;
   const hasMore = assetsData?.hasMore || false;
+  const canBulkDelete = !!user && canUpload(user) &&
+    assets.filter((asset: Asset) => selectedAssets.includes(asset.id))
+      .every((asset: Asset) => canDeleteAsset(user, asset));
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header searchQuery={searchQuery} onSearchChange={setSearchQuery} />
+      <Header searchQuery={searchQuery} onSearchChange={handleSearchChange} />
       
       <div className="flex h-screen pt-0">
         <Sidebar
@@ -207,7 +279,7 @@ export default function Dashboard() {
           onFilterChange={handleFilterChange}
           onClearFilters={handleClearFilters}
           activeView={activeView}
-          onViewChange={setActiveView}
+          onViewChange={handleViewChange}
         />
         
         <main className="flex-1 overflow-y-auto">
@@ -215,7 +287,9 @@ export default function Dashboard() {
           <div className="bg-white border-b border-gray-200 px-6 py-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-4">
-                <h2 className="text-lg font-semibold text-gray-900">Digital Assets</h2>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {activeView === "versions" ? "Version History" : activeView === "trash" ? "Trash" : "Digital Assets"}
+                </h2>
                 <span className="text-sm text-gray-500">
                   {totalCount} asset{totalCount !== 1 ? 's' : ''}
                 </span>
@@ -243,11 +317,12 @@ export default function Dashboard() {
                 </div>
                 
                 {/* Sort Dropdown */}
-                <Select value={sortBy} onValueChange={setSortBy}>
+                <Select value={sortBy} onValueChange={handleSortChange}>
                   <SelectTrigger className="w-40">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
+                    {searchQuery && <SelectItem value="relevance">Sort by Relevance</SelectItem>}
                     <SelectItem value="date">Sort by Date</SelectItem>
                     <SelectItem value="name">Sort by Name</SelectItem>
                     <SelectItem value="size">Sort by Size</SelectItem>
@@ -290,12 +365,20 @@ export default function Dashboard() {
                           Download Selected
                         </button>
                         <button
-                          onClick={() => handleBulkAction('delete')}
-                          className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 text-red-600"
-                          disabled={selectedAssets.length === 0}
+                          onClick={handleDownloadMatching}
+                          className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100"
                         >
-                          Delete Selected
+                          Download All Matching
                         </button>
+                        {canBulkDelete && (
+                          <button
+                            onClick={() => handleBulkAction('delete')}
+                            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-100 text-red-600"
+                            disabled={selectedAssets.length === 0}
+                          >
+                            Delete Selected
+                          </button>
+                        )}
                       </div>
                     </div>
                   )}
@@ -315,7 +398,20 @@ export default function Dashboard() {
 
           {/* Assets Display */}
           <div className="p-6">
-            {viewMode === "grid" ? (
+            {activeView === "versions" ? (
+              <VersionHistory
+                assets={assets}
+                selectedAssetId={versionAssetId}
+                onSelectAsset={setVersionAssetId}
+                isLoading={isLoading}
+              />
+            ) : activeView === "trash" ? (
+              <TrashView
+                assets={assets}
+                retentionDays={assetsData?.trashRetentionDays ?? 30}
+                isLoading={isLoading}
+              />
+            ) : viewMode === "grid" ? (
               <AssetGrid
                 assets={assets}
                 onPreview={handlePreviewAsset}
@@ -352,23 +448,12 @@ export default function Dashboard() {
                   >
                     Previous
                   </Button>
-                  {Array.from({ length: Math.min(5, Math.ceil(totalCount / limit)) }, (_, i) => {
-                    const pageNum = currentPage < 3 ? i : currentPage - 2 + i;
-                    if (pageNum >= Math.ceil(totalCount / limit)) return null;
-                    return (
-                      <Button
-                        key={pageNum}
-                        variant={pageNum === currentPage ? "default" : "outline"}
-                        onClick={() => setCurrentPage(pageNum)}
-                        className="w-10"
-                      >
-                        {pageNum + 1}
-                      </Button>
-                    );
-                  })}
+                  <span className="text-sm text-gray-500">
+                    Page {currentPage + 1} of {Math.max(1, Math.ceil(totalCount / limit))}
+                  </span>
                   <Button
                     variant="outline"
-                    onClick={() => setCurrentPage(prev => prev + 1)}
+                    onClick={handleNextPage}
                     disabled={!hasMore}
                   >
                     Next
@@ -392,6 +477,8 @@ export default function Dashboard() {
           setIsPreviewModalOpen(false);
           setSelectedAsset(null);
         }}
+        onShowVersions={handleShowVersions}
+        onAssetChange={setSelectedAsset}
       />
     </div>
   );
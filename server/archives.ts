@@ -0,0 +1,128 @@
+import archiver from "archiver";
+import { once } from "events";
+import path from "path";
+import type { Response } from "express";
+import type { Asset } from "@shared/schema";
+import { storage } from "./storage";
+import { getProvider, getFileRef, type StoredFileRecord } from "./file-storage";
+import { formatSlideName } from "./naming";
+
+// Bulk downloads are streamed as a ZIP while the files are read from storage
+// one at a time, so a large selection never sits in memory or on disk.
+
+const MANIFEST_COLUMNS: [string, (asset: Asset) => unknown][] = [
+  ["Filename", asset => asset.filename],
+  ["Original Name", asset => asset.originalName],
+  ["Category", asset => asset.category],
+  ["Asset Type", asset => asset.assetType],
+  ["Region", asset => asset.region],
+  ["State", asset => asset.state],
+  ["Resort", asset => asset.resort || ""],
+  ["Year", asset => asset.year],
+  ["Month", asset => asset.month],
+  ["Version", asset => asset.version],
+  ["File Size (bytes)", asset => asset.fileSize],
+  ["MIME Type", asset => asset.mimeType],
+  ["Upload Date", asset => asset.uploadDate.toISOString()],
+  ["Tags", asset => asset.tags?.join(", ") || ""],
+];
+
+interface ArchiveEntry {
+  name: string;
+  file: StoredFileRecord;
+}
+
+function getArchiveFolder(asset: Asset): string {
+  return `${asset.category}/${asset.region}/${asset.resort || "Brand"}`;
+}
+
+// The asset's file, or for a carousel its slides in order, in a folder
+// named after the asset
+async function getArchiveEntries(asset: Asset): Promise<{ path: string; entries: ArchiveEntry[] }> {
+  const slides = await storage.getSlides(asset.id);
+  if (slides.length < 2) {
+    const filePath = `${getArchiveFolder(asset)}/${asset.filename}`;
+    return { path: filePath, entries: [{ name: filePath, file: asset }] };
+  }
+
+  const assetName = path.parse(asset.filename).name;
+  const folder = `${getArchiveFolder(asset)}/${assetName}`;
+  return {
+    path: `${folder}/`,
+    entries: slides.map((slide, index) => ({
+      name: `${folder}/${formatSlideName(assetName, index)}${path.extname(slide.filename)}`,
+      file: slide
+    }))
+  };
+}
+
+function toCsvField(value: unknown): string {
+  const text = String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildManifest(assets: Asset[], paths: Map<string, string>, errors: Map<string, string>): string {
+  const header = ["Path", ...MANIFEST_COLUMNS.map(([name]) => name), "Error"];
+  const rows = assets.map(asset => [
+    paths.get(asset.id) ?? "",
+    ...MANIFEST_COLUMNS.map(([, getValue]) => getValue(asset)),
+    errors.get(asset.id) ?? ""
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Streams the assets' files to the response as a ZIP laid out by category,
+// region and resort, followed by manifest.csv. Carousels get a folder of
+// their slides. Headers are sent before the first file is read, so a file
+// that can't be opened is left out and its error listed in the manifest
+// instead.
+export async function streamAssetArchive(res: Response, assets: Asset[], userId: string, archiveName: string): Promise<void> {
+  // Media formats are already compressed; storing them keeps the CPU free
+  const archive = archiver("zip", { store: true });
+  let aborted = false;
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      aborted = true;
+      archive.abort();
+    }
+  });
+  archive.on("warning", error => console.error("Warning while building archive:", error));
+  // A file that fails part way through has already been partly written, so
+  // the ZIP can't be finished; cut the response off instead of letting the
+  // client save a truncated archive as though it were complete
+  archive.on("error", error => {
+    if (aborted) return;
+    console.error("Error building archive:", error);
+    aborted = true;
+    res.destroy();
+  });
+
+  res.attachment(archiveName);
+  archive.pipe(res);
+
+  const paths = new Map<string, string>();
+  const errors = new Map<string, string>();
+  for (const asset of assets) {
+    if (aborted) return;
+    try {
+      const { path: assetPath, entries } = await getArchiveEntries(asset);
+      paths.set(asset.id, assetPath);
+      for (const entry of entries) {
+        const ref = getFileRef(entry.file);
+        const stream = await getProvider(ref.provider).getStream(ref.key);
+        archive.append(stream, { name: entry.name, date: asset.uploadDate });
+        // Wait for the entry to be written before opening the next file
+        await once(archive, "entry");
+      }
+      await storage.recordDownload({ assetId: asset.id, userId });
+    } catch (error) {
+      if (aborted) return;
+      console.error(`Error adding asset ${asset.id} to archive:`, error);
+      errors.set(asset.id, (error as Error).message);
+    }
+  }
+
+  if (aborted) return;
+  archive.append(buildManifest(assets, paths, errors), { name: "manifest.csv" });
+  await archive.finalize();
+}
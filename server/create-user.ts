@@ -0,0 +1,38 @@
+// Creates a login for the repository. There is no public sign-up route, so
+// the first admin is provisioned from the command line (admins can then
+// manage everyone else through /api/users):
+//   npm run user:create -- <username> <password> [role] [regions]
+// e.g. npm run user:create -- priya s3cret contributor North,West
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { insertUserSchema } from "@shared/schema";
+import { pool } from "./db";
+
+async function main() {
+  const [username, password, role = "viewer", regions] = process.argv.slice(2);
+  if (!username || !password) {
+    console.error("Usage: npm run user:create -- <username> <password> [role] [regions]");
+    process.exit(1);
+  }
+
+  if (await storage.getUserByUsername(username)) {
+    console.error(`User "${username}" already exists`);
+    process.exit(1);
+  }
+
+  const userData = insertUserSchema.parse({
+    username,
+    password,
+    role,
+    regions: regions ? regions.split(",").map((region) => region.trim()) : [],
+  });
+  const user = await storage.createUser({ ...userData, password: await hashPassword(userData.password) });
+  console.log(`Created ${user.role} ${user.username} (${user.id})`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to create user:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,59 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { LocalStorageProvider, setProvider } from "./file-storage";
+import { sendStoredFile, type DownloadableFile } from "./downloads";
+
+let rootDir: string;
+let server: Server;
+let baseUrl: string;
+
+const FILES: Record<string, DownloadableFile> = {
+  photo: { filename: "photo.jpg", mimeType: "image/jpeg", fileSize: 4, storageProvider: "local", googleDriveFileId: "Assets/photo.jpg", driveLink: "/uploads/Assets/photo.jpg" },
+  page: { filename: "page.html", mimeType: "text/html", fileSize: 25, storageProvider: "local", googleDriveFileId: "Assets/page.html", driveLink: "/uploads/Assets/page.html" },
+  drawing: { filename: "drawing.svg", mimeType: "image/svg+xml", fileSize: 11, storageProvider: "local", googleDriveFileId: "Assets/drawing.svg", driveLink: "/uploads/Assets/drawing.svg" },
+};
+
+before(async () => {
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "downloads-test-"));
+  await fs.promises.mkdir(path.join(rootDir, "Assets"));
+  await fs.promises.writeFile(path.join(rootDir, "Assets/photo.jpg"), "jpeg");
+  await fs.promises.writeFile(path.join(rootDir, "Assets/page.html"), "<script>alert(1)</script>");
+  await fs.promises.writeFile(path.join(rootDir, "Assets/drawing.svg"), "<svg></svg>");
+  setProvider(new LocalStorageProvider(rootDir));
+
+  const app = express();
+  app.get("/:name", (req, res) => sendStoredFile(req, res, FILES[req.params.name], { inline: true }));
+  server = app.listen(0);
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.close();
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+test("images are shown inline, without sniffing or script", async () => {
+  const response = await fetch(`${baseUrl}/photo`);
+
+  assert.equal(response.headers.get("content-disposition"), null);
+  assert.equal(response.headers.get("x-content-type-options"), "nosniff");
+  assert.equal(response.headers.get("content-security-policy"), "sandbox");
+  assert.equal(await response.text(), "jpeg");
+});
+
+test("HTML and SVG are sent as attachments even when inline is asked for", async () => {
+  for (const name of ["page", "drawing"]) {
+    const response = await fetch(`${baseUrl}/${name}`);
+    await response.arrayBuffer();
+
+    assert.match(response.headers.get("content-disposition") ?? "", /^attachment/);
+    assert.equal(response.headers.get("x-content-type-options"), "nosniff");
+    assert.equal(response.headers.get("content-security-policy"), "sandbox");
+  }
+});
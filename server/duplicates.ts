@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import fs from "fs";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { getProvider, getFileRef } from "./file-storage";
+
+// Assets are deduplicated by the SHA-256 of their file content, so the same
+// file is caught however it was renamed.
+
+export function hashStream(stream: Readable): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    stream.on("data", chunk => hash.update(chunk));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+export function hashFile(localPath: string): Promise<string> {
+  return hashStream(fs.createReadStream(localPath));
+}
+
+// Hashes the files of assets stored before content hashes existed, reading
+// them back from their storage backend. Files that can't be read are
+// counted and left for the next run.
+export async function backfillContentHashes(): Promise<{ hashed: number; failed: number }> {
+  let hashed = 0;
+  let failed = 0;
+
+  for (const asset of await storage.getAssetsWithoutContentHash()) {
+    try {
+      const ref = getFileRef(asset);
+      const contentHash = await hashStream(await getProvider(ref.provider).getStream(ref.key));
+      await storage.setContentHash(asset, contentHash);
+      hashed++;
+    } catch (error) {
+      console.error(`Error hashing asset ${asset.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { hashed, failed };
+}
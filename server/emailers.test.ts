@@ -0,0 +1,67 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import type { Asset } from "@shared/schema";
+import { LocalStorageProvider, setProvider } from "./file-storage";
+import { getEmailerPreview, EmailerError } from "./emailers";
+
+let rootDir: string;
+
+function zipAsset(key: string, fileSize: number): Asset {
+  return {
+    id: key,
+    filename: key,
+    mimeType: "application/zip",
+    fileSize,
+    storageProvider: "local",
+    googleDriveFileId: key,
+    driveLink: `/uploads/${key}`,
+  } as Asset;
+}
+
+async function writeZip(key: string, files: Record<string, string | Buffer>): Promise<Asset> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  const content = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", compressionOptions: { level: 1 } });
+  await fs.promises.writeFile(path.join(rootDir, key), content);
+  return zipAsset(key, content.length);
+}
+
+before(async () => {
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "emailers-test-"));
+  setProvider(new LocalStorageProvider(rootDir));
+});
+
+after(async () => {
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+test("a ZIP's page and images are read into the preview", async () => {
+  const asset = await writeZip("emailer.zip", {
+    "index.html": '<html><head><title>Monsoon offers</title></head><body><img src="images/logo.png"></body></html>',
+    "images/logo.png": Buffer.from("png"),
+  });
+
+  const preview = await getEmailerPreview(asset);
+
+  assert.equal(preview.subject, "Monsoon offers");
+  assert.match(preview.html, /src="data:image\/png;base64,cG5n"/);
+});
+
+test("a ZIP that expands past the limit is refused while it's extracted", async () => {
+  // 101 MB of zeros compresses to well under a megabyte
+  const asset = await writeZip("bomb.zip", {
+    "index.html": '<html><body><img src="images/fill.png"></body></html>',
+    "images/fill.png": Buffer.alloc(101 * 1024 * 1024),
+  });
+
+  await assert.rejects(
+    getEmailerPreview(asset),
+    (error: Error) => error instanceof EmailerError && /too large/.test(error.message)
+  );
+});
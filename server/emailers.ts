@@ -0,0 +1,214 @@
+import path from "path";
+import type { Readable } from "stream";
+import JSZip from "jszip";
+import { parse, type HTMLElement } from "node-html-parser";
+import { EMAILER_MIME_TYPES, type Asset, type EmailerPreview } from "@shared/schema";
+import { getProvider, getFileRef } from "./file-storage";
+
+// Emailer previews are rendered by the browser in a sandboxed iframe from
+// the HTML returned here. Images and stylesheets a ZIP references by
+// relative path are inlined as data URIs, since the sandboxed document
+// can't fetch them from the API itself.
+
+const MAX_EMAILER_BYTES = 25 * 1024 * 1024;
+// Limit on what one preview extracts from a ZIP, counted as it's
+// decompressed, so a small ZIP that expands enormously (a zip bomb) is
+// abandoned once it passes the limit
+const MAX_EMAILER_EXTRACTED_BYTES = 100 * 1024 * 1024;
+
+const INLINE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// The asset can't be previewed as an emailer
+export class EmailerError extends Error {
+  status = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailerError";
+  }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Absolute URLs, data URIs and in-page anchors are left alone
+function isRelativeReference(reference: string): boolean {
+  return !!reference && !/^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference);
+}
+
+// Files of an uploaded ZIP, addressed relative to the HTML page
+class EmailerPackage {
+  private extractedBytes = 0;
+
+  constructor(private zip: JSZip) {}
+
+  // Reads the ZIP's directory; files are only decompressed when read
+  static async load(content: Buffer): Promise<EmailerPackage> {
+    return new EmailerPackage(await JSZip.loadAsync(content));
+  }
+
+  // The page to preview: index.html if there is one, else the shallowest HTML file
+  findPage(): string | null {
+    const pages = Object.keys(this.zip.files)
+      .filter(name => !this.zip.files[name].dir && !name.startsWith("__MACOSX/") && /\.html?$/i.test(name))
+      .sort((a, b) => a.split("/").length - b.split("/").length || a.localeCompare(b));
+    return pages.find(name => /(^|\/)index\.html?$/i.test(name)) ?? pages[0] ?? null;
+  }
+
+  async read(name: string): Promise<string> {
+    return (await this.extract(name)).toString("utf8");
+  }
+
+  // Decompresses a file, stopping as soon as the package's extracted
+  // bytes pass the limit. The sizes a ZIP declares can't be trusted.
+  private extract(name: string): Promise<Buffer> {
+    const stream = this.zip.file(name)!.nodeStream("nodebuffer");
+    const chunks: Buffer[] = [];
+    return new Promise((resolve, reject) => {
+      stream.on("data", (chunk: Buffer) => {
+        this.extractedBytes += chunk.length;
+        if (this.extractedBytes > MAX_EMAILER_EXTRACTED_BYTES) {
+          // Once paused and full, the stream stops JSZip decompressing
+          stream.pause();
+          stream.removeAllListeners();
+          reject(new EmailerError("The emailer ZIP is too large to preview once extracted"));
+        } else {
+          chunks.push(chunk);
+        }
+      });
+      stream.on("end", () => resolve(Buffer.concat(chunks)));
+      stream.on("error", reject);
+    });
+  }
+
+  resolve(reference: string, fromDir: string): string | null {
+    let cleaned: string;
+    try {
+      cleaned = decodeURIComponent(reference.split(/[?#]/)[0]);
+    } catch {
+      return null;
+    }
+    const name = cleaned.startsWith("/")
+      ? cleaned.slice(1)
+      : path.posix.normalize(path.posix.join(fromDir, cleaned));
+    return this.zip.file(name) ? name : null;
+  }
+
+  async toDataUri(reference: string, fromDir: string): Promise<string | null> {
+    if (!isRelativeReference(reference)) return null;
+    const name = this.resolve(reference, fromDir);
+    const mimeType = name && INLINE_MIME_TYPES[path.posix.extname(name).toLowerCase()];
+    if (!name || !mimeType) return null;
+    return `data:${mimeType};base64,${(await this.extract(name)).toString("base64")}`;
+  }
+
+  async inlineCssUrls(css: string, fromDir: string): Promise<string> {
+    const replacements = new Map<string, string>();
+    for (const [, , reference] of Array.from(css.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g))) {
+      const dataUri = await this.toDataUri(reference, fromDir);
+      if (dataUri) replacements.set(reference, dataUri);
+    }
+    return css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, _quote, reference) =>
+      replacements.has(reference) ? `url('${replacements.get(reference)}')` : match);
+  }
+
+  async inlineResources(root: HTMLElement, pageDir: string): Promise<void> {
+    for (const element of root.querySelectorAll("[src], [background]")) {
+      for (const attribute of ["src", "background"]) {
+        const reference = element.getAttribute(attribute);
+        const dataUri = reference && await this.toDataUri(reference, pageDir);
+        if (dataUri) element.setAttribute(attribute, dataUri);
+      }
+    }
+
+    for (const link of root.querySelectorAll('link[rel="stylesheet"]')) {
+      const href = link.getAttribute("href");
+      const name = href && isRelativeReference(href) ? this.resolve(href, pageDir) : null;
+      if (!name) continue;
+      const css = await this.inlineCssUrls(await this.read(name), path.posix.dirname(name));
+      link.replaceWith(`<style>${css}</style>`);
+    }
+
+    for (const style of root.querySelectorAll("style")) {
+      style.set_content(await this.inlineCssUrls(style.textContent, pageDir));
+    }
+    for (const element of root.querySelectorAll("[style]")) {
+      element.setAttribute("style", await this.inlineCssUrls(element.getAttribute("style")!, pageDir));
+    }
+  }
+}
+
+function getPreheader(root: HTMLElement): string | null {
+  // Templates usually mark it; otherwise it's the hidden text at the top of the body
+  const preheader = root.querySelector('[class*="preheader"], [id*="preheader"]') ??
+    root.querySelectorAll("body [style]").find(element => /display\s*:\s*none/i.test(element.getAttribute("style")!));
+  const text = preheader?.textContent.replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+function getLinks(root: HTMLElement): EmailerPreview["links"] {
+  const links = new Map<string, string>();
+  for (const anchor of root.querySelectorAll("a[href]")) {
+    const href = anchor.getAttribute("href")!.trim();
+    if (!href || href.startsWith("#") || links.has(href)) continue;
+    const text = anchor.textContent.replace(/\s+/g, " ").trim() || anchor.querySelector("img")?.getAttribute("alt") || "";
+    links.set(href, text);
+  }
+  return Array.from(links, ([href, text]) => ({ href, text }));
+}
+
+export async function getEmailerPreview(asset: Asset): Promise<EmailerPreview> {
+  if (!EMAILER_MIME_TYPES.includes(asset.mimeType)) {
+    throw new EmailerError("Only HTML and ZIP files can be previewed as emailers");
+  }
+  if (asset.fileSize > MAX_EMAILER_BYTES) {
+    throw new EmailerError("The emailer is too large to preview");
+  }
+
+  const ref = getFileRef(asset);
+  const content = await readAll(await getProvider(ref.provider).getStream(ref.key));
+
+  let html: string;
+  let emailerPackage: EmailerPackage | null = null;
+  let pageDir = "";
+  if (asset.mimeType === "text/html") {
+    html = content.toString("utf8");
+  } else {
+    emailerPackage = await EmailerPackage.load(content);
+    const page = emailerPackage.findPage();
+    if (!page) {
+      throw new EmailerError("The ZIP doesn't contain an HTML file");
+    }
+    html = await emailerPackage.read(page);
+    pageDir = path.posix.dirname(page);
+  }
+
+  const root = parse(html, { comment: true });
+  await emailerPackage?.inlineResources(root, pageDir);
+
+  const subject = root.querySelector("title")?.textContent.trim() || null;
+  const preheader = getPreheader(root);
+  const links = getLinks(root);
+
+  // Links open in a new tab rather than inside the preview
+  const head = root.querySelector("head");
+  if (head) {
+    head.insertAdjacentHTML("afterbegin", '<base target="_blank">');
+  } else {
+    root.insertAdjacentHTML("afterbegin", '<base target="_blank">');
+  }
+
+  return { html: root.toString(), subject, preheader, links };
+}
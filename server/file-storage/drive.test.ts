@@ -0,0 +1,88 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DriveStorageProvider } from "./drive";
+import { FakeDrive } from "./fake-drive";
+
+let drive: FakeDrive;
+let provider: DriveStorageProvider;
+
+beforeEach(() => {
+  drive = new FakeDrive();
+  provider = new DriveStorageProvider(drive.asClient());
+});
+
+let tempDir: string;
+before(async () => {
+  tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "drive-test-"));
+});
+after(async () => {
+  await fs.promises.rm(tempDir, { recursive: true, force: true });
+});
+
+async function writeTempFile(content: string): Promise<string> {
+  const filePath = path.join(tempDir, `upload-${Math.random().toString(36).slice(2)}`);
+  await fs.promises.writeFile(filePath, content);
+  return filePath;
+}
+
+test("ensureFolder creates missing folders and reuses existing ones", async () => {
+  const existing = drive.addFolderPath("Assets/Brand");
+
+  const folderId = await provider.ensureFolder("Assets/Brand/North");
+  assert.equal(drive.files.get(folderId)!.parents[0], existing);
+  assert.equal(await provider.ensureFolder("Assets/Brand/North"), folderId);
+});
+
+test("put uploads into the folder and removes the temp file", async () => {
+  const folderId = await provider.ensureFolder("Assets/Brand");
+  const localPath = await writeTempFile("hello");
+
+  const stored = await provider.put({ localPath, name: "a.jpg", mimeType: "image/jpeg", size: 5, folderId });
+
+  assert.deepEqual(drive.files.get(stored.key)!.parents, [folderId]);
+  assert.equal(stored.url, `https://drive.test/${stored.key}`);
+  assert.equal(fs.existsSync(localPath), false);
+});
+
+test("list walks subfolders and reports paths and sizes", async () => {
+  const month = drive.addFolderPath("Assets/Brand/2025/03");
+  drive.add({ name: "a.jpg", mimeType: "image/jpeg", parents: [month], size: "12" });
+  drive.add({ name: "gone.jpg", mimeType: "image/jpeg", parents: [month], size: "1", trashed: true });
+
+  const files = await provider.list("Assets");
+
+  assert.deepEqual(files.map(file => [file.path, file.size]), [["Assets/Brand/2025/03/a.jpg", 12]]);
+  assert.deepEqual(await provider.list("Elsewhere"), []);
+});
+
+test("stat treats trashed and deleted files as gone", async () => {
+  const kept = drive.add({ name: "a.jpg", mimeType: "image/jpeg", parents: ["root"], size: "3" });
+  const trashed = drive.add({ name: "b.jpg", mimeType: "image/jpeg", parents: ["root"], trashed: true });
+
+  assert.equal((await provider.stat(kept))?.size, 3);
+  assert.equal(await provider.stat(trashed), null);
+  assert.equal(await provider.stat("missing"), null);
+});
+
+test("move changes folder and name but keeps the key", async () => {
+  const from = drive.addFolder("From");
+  const to = drive.addFolder("To");
+  const key = drive.add({ name: "a.jpg", mimeType: "image/jpeg", parents: [from] });
+
+  const moved = await provider.move(key, to, "b.jpg");
+
+  assert.equal(moved.key, key);
+  assert.deepEqual(drive.files.get(key)!.parents, [to]);
+  assert.equal(drive.files.get(key)!.name, "b.jpg");
+});
+
+test("delete ignores files that are already gone", async () => {
+  const key = drive.add({ name: "a.jpg", mimeType: "image/jpeg", parents: ["root"] });
+
+  await provider.delete(key);
+  await provider.delete(key);
+  assert.equal(drive.files.has(key), false);
+});
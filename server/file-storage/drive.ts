@@ -0,0 +1,180 @@
+import fs from "fs";
+import { google, type drive_v3 } from "googleapis";
+import type { Readable } from "stream";
+import type { StorageProvider, PutFileInput, StoredFile, ByteRange, FileInfo, ListedFile } from "./types";
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+// Stores files in Google Drive. Takes the Drive client as a constructor
+// argument so a fake client can stand in for it.
+export class DriveStorageProvider implements StorageProvider {
+  readonly name = "drive" as const;
+
+  constructor(private drive: drive_v3.Drive) {}
+
+  static fromCredentials(keyFile: string): DriveStorageProvider {
+    return new DriveStorageProvider(google.drive({
+      version: "v3",
+      auth: new google.auth.GoogleAuth({
+        keyFile,
+        scopes: ["https://www.googleapis.com/auth/drive.file"]
+      })
+    }));
+  }
+
+  async ensureFolder(folderPath: string): Promise<string> {
+    let parentId = "root";
+
+    for (const folderName of folderPath.split("/")) {
+      if (!folderName) continue;
+
+      // Check if folder exists
+      const existingId = await this.findFolder(folderName, parentId);
+      if (existingId) {
+        parentId = existingId;
+      } else {
+        const folder = await this.drive.files.create({
+          requestBody: {
+            name: folderName,
+            mimeType: FOLDER_MIME_TYPE,
+            parents: [parentId]
+          },
+          fields: "id"
+        });
+        parentId = folder.data.id!;
+      }
+    }
+
+    return parentId;
+  }
+
+  getFolderUrl(folderId: string): string {
+    return `https://drive.google.com/drive/folders/${folderId}`;
+  }
+
+  async put(input: PutFileInput): Promise<StoredFile> {
+    const response = await this.drive.files.create({
+      requestBody: {
+        name: input.name,
+        parents: [input.folderId]
+      },
+      media: {
+        mimeType: input.mimeType,
+        body: fs.createReadStream(input.localPath)
+      },
+      fields: "id,webViewLink"
+    });
+
+    await fs.promises.unlink(input.localPath);
+    return { key: response.data.id!, url: response.data.webViewLink ?? this.getPublicUrl(response.data.id!) };
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.drive.files.get(
+      { fileId: key, alt: "media" },
+      {
+        responseType: "stream",
+        headers: range ? { Range: `bytes=${range.start}-${range.end}` } : undefined
+      }
+    );
+    return response.data as unknown as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.drive.files.delete({ fileId: key });
+    } catch (error) {
+      // Already gone is as good as deleted
+      if ((error as { code?: number }).code !== 404) throw error;
+    }
+  }
+
+  async move(key: string, folderId: string, name?: string): Promise<StoredFile> {
+    const current = await this.drive.files.get({ fileId: key, fields: "parents" });
+    const response = await this.drive.files.update({
+      fileId: key,
+      addParents: folderId,
+      removeParents: (current.data.parents ?? []).join(","),
+      requestBody: name ? { name } : undefined,
+      fields: "id,webViewLink"
+    });
+    return { key, url: response.data.webViewLink ?? this.getPublicUrl(key) };
+  }
+
+  getPublicUrl(key: string): string {
+    return `https://drive.google.com/file/d/${key}/view`;
+  }
+
+  async list(folderPath: string): Promise<ListedFile[]> {
+    let folderId = "root";
+    for (const folderName of folderPath.split("/")) {
+      if (!folderName) continue;
+      const childId = await this.findFolder(folderName, folderId);
+      if (!childId) return [];
+      folderId = childId;
+    }
+
+    const files: ListedFile[] = [];
+    const pending = [{ id: folderId, path: folderPath.split("/").filter(Boolean).join("/") }];
+    while (pending.length > 0) {
+      const folder = pending.shift()!;
+      let pageToken: string | undefined;
+      do {
+        const response = await this.drive.files.list({
+          q: `'${folder.id}' in parents and trashed=false`,
+          fields: "nextPageToken, files(id, name, mimeType, size, webViewLink)",
+          pageSize: 1000,
+          pageToken
+        });
+        for (const file of response.data.files ?? []) {
+          const filePath = `${folder.path}/${file.name}`;
+          if (file.mimeType === FOLDER_MIME_TYPE) {
+            pending.push({ id: file.id!, path: filePath });
+          } else {
+            files.push({ ...this.toFileInfo(file), path: filePath });
+          }
+        }
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+    }
+    return files;
+  }
+
+  async stat(key: string): Promise<FileInfo | null> {
+    try {
+      const response = await this.drive.files.get({
+        fileId: key,
+        fields: "id, name, mimeType, size, webViewLink, trashed"
+      });
+      // A file in the Drive trash is as good as gone for us
+      if (response.data.trashed) return null;
+      return this.toFileInfo(response.data);
+    } catch (error) {
+      if ((error as { code?: number }).code === 404) return null;
+      throw error;
+    }
+  }
+
+  private async findFolder(name: string, parentId: string): Promise<string | undefined> {
+    const response = await this.drive.files.list({
+      q: `name='${escapeQuery(name)}' and '${parentId}' in parents and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`,
+      fields: "files(id, name)"
+    });
+    return response.data.files?.[0]?.id ?? undefined;
+  }
+
+  private toFileInfo(file: drive_v3.Schema$File): FileInfo {
+    return {
+      key: file.id!,
+      name: file.name ?? "",
+      // Google Docs have no size; they never come from uploads anyway
+      size: Number(file.size ?? 0),
+      mimeType: file.mimeType ?? undefined,
+      url: file.webViewLink ?? this.getPublicUrl(file.id!)
+    };
+  }
+}
+
+function escapeQuery(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
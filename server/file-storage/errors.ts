@@ -0,0 +1,10 @@
+// A file already exists under the key a new file would be stored as.
+// Providers refuse to replace it, since another record may point at it.
+export class FileExistsError extends Error {
+  status = 409;
+
+  constructor(public key: string) {
+    super(`A file already exists at ${key}`);
+    this.name = "FileExistsError";
+  }
+}
@@ -0,0 +1,101 @@
+import fs from "fs";
+import type { drive_v3 } from "googleapis";
+
+// In-memory stand-in for the parts of the Drive v3 client that
+// DriveStorageProvider uses, for tests. Understands just the list queries
+// the provider sends.
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+export interface FakeDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parents: string[];
+  size?: string; // Drive reports sizes as strings
+  trashed?: boolean;
+}
+
+function notFound(): Error {
+  return Object.assign(new Error("File not found"), { code: 404 });
+}
+
+export class FakeDrive {
+  files = new Map<string, FakeDriveFile>();
+  private nextId = 1;
+
+  // Adds a file or folder (a mimeType of FOLDER_MIME_TYPE) and returns its id
+  add(file: Omit<FakeDriveFile, "id">): string {
+    const id = `id${this.nextId++}`;
+    this.files.set(id, { ...file, id });
+    return id;
+  }
+
+  addFolder(name: string, parentId = "root"): string {
+    return this.add({ name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] });
+  }
+
+  // Creates the folders along a slash-separated path and returns the last id
+  addFolderPath(folderPath: string): string {
+    let parentId = "root";
+    for (const name of folderPath.split("/").filter(Boolean)) {
+      const existing = Array.from(this.files.values()).find(file =>
+        file.name === name && file.mimeType === FOLDER_MIME_TYPE && file.parents.includes(parentId));
+      parentId = existing?.id ?? this.addFolder(name, parentId);
+    }
+    return parentId;
+  }
+
+  asClient(): drive_v3.Drive {
+    const toResponse = (file: FakeDriveFile) => ({
+      ...file,
+      webViewLink: `https://drive.test/${file.id}`
+    });
+
+    return {
+      files: {
+        create: async ({ requestBody, media }: drive_v3.Params$Resource$Files$Create) => {
+          let size: string | undefined;
+          if (media?.body) {
+            const content = await fs.promises.readFile((media.body as fs.ReadStream).path as string);
+            size = String(content.length);
+          }
+          const id = this.add({
+            name: requestBody!.name!,
+            mimeType: requestBody!.mimeType ?? media?.mimeType ?? "application/octet-stream",
+            parents: requestBody!.parents ?? ["root"],
+            size
+          });
+          return { data: toResponse(this.files.get(id)!) };
+        },
+        get: async ({ fileId }: drive_v3.Params$Resource$Files$Get) => {
+          const file = this.files.get(fileId!);
+          if (!file) throw notFound();
+          return { data: toResponse(file) };
+        },
+        list: async ({ q }: drive_v3.Params$Resource$Files$List) => {
+          const parentId = /'([^']+)' in parents/.exec(q!)![1];
+          const name = /name='((?:\\.|[^'])*)'/.exec(q!)?.[1].replace(/\\(.)/g, "$1");
+          const foldersOnly = q!.includes(`mimeType='${FOLDER_MIME_TYPE}'`);
+          const files = Array.from(this.files.values()).filter(file =>
+            file.parents.includes(parentId) && !file.trashed &&
+            (name === undefined || file.name === name) &&
+            (!foldersOnly || file.mimeType === FOLDER_MIME_TYPE));
+          return { data: { files: files.map(toResponse) } };
+        },
+        update: async ({ fileId, addParents, removeParents, requestBody }: drive_v3.Params$Resource$Files$Update) => {
+          const file = this.files.get(fileId!);
+          if (!file) throw notFound();
+          const removed = (removeParents ?? "").split(",");
+          file.parents = [...file.parents.filter(parent => !removed.includes(parent)), ...(addParents ? [addParents] : [])];
+          if (requestBody?.name) file.name = requestBody.name;
+          return { data: toResponse(file) };
+        },
+        delete: async ({ fileId }: drive_v3.Params$Resource$Files$Delete) => {
+          if (!this.files.delete(fileId!)) throw notFound();
+          return { data: {} };
+        }
+      }
+    } as unknown as drive_v3.Drive;
+  }
+}
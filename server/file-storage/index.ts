@@ -0,0 +1,197 @@
+import { STORAGE_PROVIDERS, type StorageProviderName } from "@shared/schema";
+import type { StorageProvider, PutFileInput, StoredFile } from "./types";
+import { LocalStorageProvider } from "./local";
+import { DriveStorageProvider } from "./drive";
+import { S3StorageProvider } from "./s3";
+import { FileExistsError } from "./errors";
+
+export type { StorageProvider, PutFileInput, StoredFile, ByteRange, FileInfo, ListedFile } from "./types";
+export { LocalStorageProvider } from "./local";
+export { DriveStorageProvider } from "./drive";
+export { S3StorageProvider } from "./s3";
+export { FileExistsError } from "./errors";
+
+// STORAGE_PROVIDER picks where new files go: drive, local or s3. Without it,
+// Drive is used when credentials are configured and local disk otherwise.
+const configuredProviderName = (process.env.STORAGE_PROVIDER ||
+  (process.env.GOOGLE_CREDENTIALS_PATH ? "drive" : "local")) as StorageProviderName;
+
+if (!STORAGE_PROVIDERS.includes(configuredProviderName)) {
+  throw new Error(`Unknown STORAGE_PROVIDER "${configuredProviderName}"`);
+}
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+
+function createProvider(name: StorageProviderName): StorageProvider {
+  switch (name) {
+    case "drive":
+      if (!process.env.GOOGLE_CREDENTIALS_PATH) {
+        throw new Error("GOOGLE_CREDENTIALS_PATH must be set to use the drive storage provider");
+      }
+      return DriveStorageProvider.fromCredentials(process.env.GOOGLE_CREDENTIALS_PATH);
+    case "s3":
+      return S3StorageProvider.fromEnv();
+    case "local":
+      return new LocalStorageProvider();
+  }
+}
+
+// Provider for a backend, e.g. the one an existing file was stored with
+export function getProvider(name: StorageProviderName): StorageProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Replaces the provider for a backend, e.g. with one on a fake client in tests
+export function setProvider(provider: StorageProvider) {
+  providers.set(provider.name, provider);
+}
+
+// Provider that new uploads go to
+export function getPrimaryProvider(): StorageProvider {
+  try {
+    return getProvider(configuredProviderName);
+  } catch (error) {
+    console.log(`${configuredProviderName} storage not available, using local storage:`, (error as Error).message);
+    return getProvider("local");
+  }
+}
+
+export interface StoredAssetFile extends StoredFile {
+  provider: StorageProviderName;
+  folderId: string;
+  folderUrl: string;
+}
+
+// An existing asset's file, whose provider and folder a new revision joins
+export interface AssetFileLocation extends StoredFileRecord {
+  googleDriveFolderId: string;
+}
+
+// Uploads a temp file into folderPath on the primary provider, or beside an
+// existing asset's file when one is given, falling back to local disk if the
+// remote upload fails so the upload is never lost. A name that's already
+// taken is not a failure to fall back from.
+export async function storeFile(
+  folderPath: string,
+  file: Omit<PutFileInput, "folderId">,
+  beside?: AssetFileLocation,
+): Promise<StoredAssetFile> {
+  const target = beside ? getProvider(getFileRef(beside).provider) : getPrimaryProvider();
+  // Rows from before storage providers have no folder id for local files
+  const folderId = beside && beside.googleDriveFileId !== "local" ? beside.googleDriveFolderId : undefined;
+  try {
+    return await putIntoFolder(target, folderPath, file, folderId);
+  } catch (error) {
+    if (target.name === "local" || error instanceof FileExistsError) throw error;
+    console.log(`${target.name} upload failed, keeping local file:`, (error as Error).message);
+    return await putIntoFolder(getProvider("local"), folderPath, file);
+  }
+}
+
+// Stores a temp file like storeFile, or, when an earlier attempt already
+// stored it (taking the temp file) under a name that turned out to be
+// taken, renames that copy instead
+export async function storeOrRenameFile(
+  previous: StoredAssetFile | undefined,
+  folderPath: string,
+  file: Omit<PutFileInput, "folderId">,
+  beside?: AssetFileLocation,
+): Promise<StoredAssetFile> {
+  if (!previous) return await storeFile(folderPath, file, beside);
+  const moved = await getProvider(previous.provider).move(previous.key, previous.folderId, file.name);
+  return { ...previous, ...moved };
+}
+
+async function putIntoFolder(
+  provider: StorageProvider,
+  folderPath: string,
+  file: Omit<PutFileInput, "folderId">,
+  folderId?: string,
+): Promise<StoredAssetFile> {
+  folderId ??= await provider.ensureFolder(folderPath);
+  const stored = await provider.put({ ...file, folderId });
+  return {
+    ...stored,
+    provider: provider.name,
+    folderId,
+    folderUrl: provider.getFolderUrl(folderId),
+  };
+}
+
+// A storage backend refused an operation on a file
+export class FileStorageError extends Error {
+  status = 502;
+
+  constructor(message: string, public fileRefs: FileRef[] = []) {
+    super(message);
+    this.name = "FileStorageError";
+  }
+}
+
+export interface FileRef {
+  provider: StorageProviderName;
+  key: string;
+}
+
+// The columns assets, asset_versions and asset_slides rows use to point at
+// their file
+export interface StoredFileRecord {
+  storageProvider: StorageProviderName;
+  googleDriveFileId: string;
+  driveLink: string;
+}
+
+// Where a stored file lives. Rows written before providers existed mark
+// local files with a "local" file id and keep the path in driveLink.
+export function getFileRef(record: StoredFileRecord): FileRef {
+  if (record.googleDriveFileId === "local") {
+    return { provider: "local", key: record.driveLink.replace(/^\/uploads\//, "") };
+  }
+  return { provider: record.storageProvider, key: record.googleDriveFileId };
+}
+
+// Deletes every file belonging to an asset: the current file, all revision
+// and carousel slide files, its preview renditions and any local thumbnail.
+// Files shared between records (restores point at an older file, a cover
+// slide at the asset's file) are deleted once. Failures are collected and
+// reported together so one bad file doesn't hide the others.
+export async function deleteAssetFiles(
+  asset: StoredFileRecord & { thumbnailUrl: string | null },
+  revisions: StoredFileRecord[] = [],
+  renditions: { storageProvider: StorageProviderName; storageKey: string }[] = [],
+): Promise<void> {
+  const refs = new Map<string, FileRef>();
+  for (const record of [asset, ...revisions]) {
+    const ref = getFileRef(record);
+    refs.set(`${ref.provider}:${ref.key}`, ref);
+  }
+  for (const rendition of renditions) {
+    refs.set(`${rendition.storageProvider}:${rendition.storageKey}`, { provider: rendition.storageProvider, key: rendition.storageKey });
+  }
+  if (asset.thumbnailUrl?.startsWith("/uploads/")) {
+    const key = decodeURIComponent(asset.thumbnailUrl.replace(/^\/uploads\//, ""));
+    refs.set(`local:${key}`, { provider: "local", key });
+  }
+
+  const failures: { ref: FileRef; reason: string }[] = [];
+  for (const ref of Array.from(refs.values())) {
+    try {
+      await getProvider(ref.provider).delete(ref.key);
+    } catch (error) {
+      failures.push({ ref, reason: (error as Error).message });
+    }
+  }
+
+  if (failures.length > 0) {
+    const providers = Array.from(new Set(failures.map(failure => failure.ref.provider))).join(", ");
+    throw new FileStorageError(
+      `Could not delete ${failures.length} file(s) from ${providers} storage: ${failures[0].reason}`,
+      failures.map(failure => failure.ref),
+    );
+  }
+}
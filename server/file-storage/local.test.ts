@@ -0,0 +1,96 @@
+import { test, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LocalStorageProvider } from "./local";
+import { FileExistsError } from "./errors";
+
+let rootDir: string;
+let provider: LocalStorageProvider;
+
+beforeEach(async () => {
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "local-storage-test-"));
+  provider = new LocalStorageProvider(path.join(rootDir, "uploads"));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+async function writeTempFile(content: string): Promise<string> {
+  const filePath = path.join(rootDir, `temp-${Math.random().toString(36).slice(2)}`);
+  await fs.promises.writeFile(filePath, content);
+  return filePath;
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+}
+
+test("put moves the temp file under the folder", async () => {
+  const folderId = await provider.ensureFolder("Assets/Brand/North");
+  const localPath = await writeTempFile("hello");
+
+  const stored = await provider.put({ localPath, name: "a.jpg", mimeType: "image/jpeg", size: 5, folderId });
+
+  assert.equal(stored.key, "Assets/Brand/North/a.jpg");
+  assert.equal(stored.url, "/uploads/Assets/Brand/North/a.jpg");
+  assert.equal(await readStream(await provider.getStream(stored.key)), "hello");
+  assert.equal(fs.existsSync(localPath), false);
+});
+
+test("put refuses to overwrite a file and keeps the temp file", async () => {
+  const folderId = await provider.ensureFolder("Assets");
+  await provider.put({ localPath: await writeTempFile("first"), name: "a.jpg", mimeType: "image/jpeg", size: 5, folderId });
+  const localPath = await writeTempFile("second");
+
+  await assert.rejects(
+    provider.put({ localPath, name: "a.jpg", mimeType: "image/jpeg", size: 6, folderId }),
+    FileExistsError
+  );
+  assert.equal(await readStream(await provider.getStream("Assets/a.jpg")), "first");
+  assert.equal(fs.existsSync(localPath), true);
+});
+
+test("getStream reads an inclusive byte range", async () => {
+  const folderId = await provider.ensureFolder("Assets");
+  const { key } = await provider.put({ localPath: await writeTempFile("0123456789"), name: "a.txt", mimeType: "text/plain", size: 10, folderId });
+
+  assert.equal(await readStream(await provider.getStream(key, { start: 2, end: 5 })), "2345");
+});
+
+test("list walks subfolders and stat reports sizes", async () => {
+  const folderId = await provider.ensureFolder("Assets/Brand/2025");
+  await provider.put({ localPath: await writeTempFile("abc"), name: "a.jpg", mimeType: "image/jpeg", size: 3, folderId });
+
+  const files = await provider.list("Assets");
+
+  assert.deepEqual(files.map(file => [file.path, file.size]), [["Assets/Brand/2025/a.jpg", 3]]);
+  assert.equal((await provider.stat("Assets/Brand/2025/a.jpg"))?.size, 3);
+  assert.equal(await provider.stat("Assets/missing.jpg"), null);
+  assert.deepEqual(await provider.list("Elsewhere"), []);
+});
+
+test("move renames within the root but won't replace a file", async () => {
+  const folderId = await provider.ensureFolder("Assets");
+  const first = await provider.put({ localPath: await writeTempFile("1"), name: "a.jpg", mimeType: "image/jpeg", size: 1, folderId });
+  const second = await provider.put({ localPath: await writeTempFile("2"), name: "b.jpg", mimeType: "image/jpeg", size: 1, folderId });
+
+  const moved = await provider.move(first.key, "Assets/Moved", "c.jpg");
+  assert.equal(moved.key, "Assets/Moved/c.jpg");
+  assert.equal(await provider.stat(first.key), null);
+
+  await assert.rejects(provider.move(moved.key, "Assets", "b.jpg"), FileExistsError);
+  assert.equal(await readStream(await provider.getStream(second.key)), "2");
+});
+
+test("delete ignores missing files", async () => {
+  await provider.delete("Assets/missing.jpg");
+});
+
+test("keys can't escape the root", async () => {
+  await assert.rejects(provider.getStream("../outside.txt"), /Invalid storage key/);
+});
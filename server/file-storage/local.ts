@@ -0,0 +1,131 @@
+import fs from "fs";
+import path from "path";
+import type { StorageProvider, PutFileInput, StoredFile, ByteRange, FileInfo, ListedFile } from "./types";
+import { FileExistsError } from "./errors";
+
+// Stores files on local disk under uploads/, mirroring the folder layout
+// used on Drive. Keys are slash-separated paths relative to the root.
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = "local" as const;
+
+  constructor(private rootDir = path.join(process.cwd(), "uploads")) {}
+
+  async ensureFolder(folderPath: string): Promise<string> {
+    const folderId = folderPath
+      .split("/")
+      .filter(Boolean)
+      .map(sanitizeSegment)
+      .join("/");
+    await fs.promises.mkdir(this.resolve(folderId), { recursive: true });
+    return folderId;
+  }
+
+  getFolderUrl(folderId: string): string {
+    return `/uploads/${encodeKey(folderId)}/`;
+  }
+
+  async put(input: PutFileInput): Promise<StoredFile> {
+    const key = path.posix.join(input.folderId, sanitizeSegment(input.name));
+    await moveFile(input.localPath, this.resolve(key), key);
+    return { key, url: this.getPublicUrl(key) };
+  }
+
+  async getStream(key: string, range?: ByteRange) {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error) {
+      // Already gone is as good as deleted
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  async move(key: string, folderId: string, name?: string): Promise<StoredFile> {
+    const newKey = path.posix.join(folderId, sanitizeSegment(name ?? path.posix.basename(key)));
+    await fs.promises.mkdir(this.resolve(folderId), { recursive: true });
+    await moveFile(this.resolve(key), this.resolve(newKey), newKey);
+    return { key: newKey, url: this.getPublicUrl(newKey) };
+  }
+
+  getPublicUrl(key: string): string {
+    return `/uploads/${encodeKey(key)}`;
+  }
+
+  async list(folderPath: string): Promise<ListedFile[]> {
+    const files: ListedFile[] = [];
+    const walk = async (folderId: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(this.resolve(folderId), { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const key = path.posix.join(folderId, entry.name);
+        if (entry.isDirectory()) {
+          await walk(key);
+        } else if (entry.isFile()) {
+          const info = await this.stat(key);
+          if (info) files.push({ ...info, path: key });
+        }
+      }
+    };
+
+    await walk(folderPath.split("/").filter(Boolean).map(sanitizeSegment).join("/"));
+    return files;
+  }
+
+  async stat(key: string): Promise<FileInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      if (!stats.isFile()) return null;
+      return { key, name: path.posix.basename(key), size: stats.size, url: this.getPublicUrl(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  // Absolute path for a key, refusing anything that escapes the root
+  resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const resolved = path.resolve(root, key);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+}
+
+function sanitizeSegment(segment: string): string {
+  const cleaned = segment.replace(/[\/\\]/g, "_").trim();
+  return cleaned === "." || cleaned === ".." || !cleaned ? "_" : cleaned;
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+// Never replaces an existing file: link() and an exclusive copy both fail
+// if the target is there, where rename() would silently overwrite it
+async function moveFile(from: string, to: string, key: string) {
+  try {
+    try {
+      await fs.promises.link(from, to);
+    } catch (error) {
+      // Hard links cannot cross filesystems
+      if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+      await fs.promises.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") throw new FileExistsError(key);
+    throw error;
+  }
+  await fs.promises.unlink(from);
+}
@@ -0,0 +1,127 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { S3StorageProvider } from "./s3";
+import { FileExistsError } from "./errors";
+
+// Bucket contents by key, answering the commands the provider sends the way
+// S3 does, conditional writes included
+let objects: Map<string, { size: number; contentType?: string }>;
+let provider: S3StorageProvider;
+
+function s3Error(name: string, httpStatusCode: number): Error {
+  return Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+}
+
+const fakeClient = {
+  async send(command: unknown) {
+    if (command instanceof PutObjectCommand) {
+      const { Key, IfNoneMatch, Body, ContentType } = command.input;
+      let size = 0;
+      for await (const chunk of Body as Readable) size += chunk.length;
+      if (IfNoneMatch === "*" && objects.has(Key!)) throw s3Error("PreconditionFailed", 412);
+      objects.set(Key!, { size, contentType: ContentType });
+      return {};
+    }
+    if (command instanceof CopyObjectCommand) {
+      const { CopySource, Key, IfNoneMatch } = command.input;
+      const sourceKey = decodeURIComponent(CopySource!.split("/").slice(1).join("/"));
+      if (IfNoneMatch === "*" && objects.has(Key!)) throw s3Error("PreconditionFailed", 412);
+      objects.set(Key!, objects.get(sourceKey)!);
+      return {};
+    }
+    if (command instanceof DeleteObjectCommand) {
+      objects.delete(command.input.Key!);
+      return {};
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = objects.get(command.input.Key!);
+      if (!object) throw s3Error("NotFound", 404);
+      return { ContentLength: object.size, ContentType: object.contentType };
+    }
+    if (command instanceof ListObjectsV2Command) {
+      const prefix = command.input.Prefix ?? "";
+      const keys = Array.from(objects.keys()).filter(key => key.startsWith(prefix));
+      return { Contents: keys.map(key => ({ Key: key, Size: objects.get(key)!.size })), IsTruncated: false };
+    }
+    throw new Error(`Unexpected command ${(command as object).constructor.name}`);
+  }
+} as unknown as S3Client;
+
+beforeEach(() => {
+  objects = new Map();
+  provider = new S3StorageProvider({ bucket: "assets", region: "us-east-1", publicUrl: "https://cdn.test/" }, fakeClient);
+});
+
+let tempDir: string;
+before(async () => {
+  tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "s3-test-"));
+});
+after(async () => {
+  await fs.promises.rm(tempDir, { recursive: true, force: true });
+});
+
+async function writeTempFile(content: string): Promise<string> {
+  const filePath = path.join(tempDir, `upload-${Math.random().toString(36).slice(2)}`);
+  await fs.promises.writeFile(filePath, content);
+  return filePath;
+}
+
+test("put stores the object under the folder prefix and removes the temp file", async () => {
+  const folderId = await provider.ensureFolder("/Assets/Brand/");
+  const localPath = await writeTempFile("hello");
+
+  const stored = await provider.put({ localPath, name: "a b.jpg", mimeType: "image/jpeg", size: 5, folderId });
+
+  assert.equal(stored.key, "Assets/Brand/a b.jpg");
+  assert.equal(stored.url, "https://cdn.test/Assets/Brand/a%20b.jpg");
+  assert.equal(objects.get(stored.key)?.size, 5);
+  assert.equal(fs.existsSync(localPath), false);
+});
+
+test("put refuses to overwrite an object and keeps the temp file", async () => {
+  objects.set("Assets/a.jpg", { size: 1 });
+  const localPath = await writeTempFile("hello");
+
+  await assert.rejects(
+    provider.put({ localPath, name: "a.jpg", mimeType: "image/jpeg", size: 5, folderId: "Assets" }),
+    FileExistsError
+  );
+  assert.equal(objects.get("Assets/a.jpg")?.size, 1);
+  assert.equal(fs.existsSync(localPath), true);
+});
+
+test("move copies then deletes, but won't replace an object", async () => {
+  objects.set("Assets/a.jpg", { size: 1 });
+  objects.set("Assets/b.jpg", { size: 2 });
+
+  const moved = await provider.move("Assets/a.jpg", "Assets/Moved");
+  assert.equal(moved.key, "Assets/Moved/a.jpg");
+  assert.deepEqual(Array.from(objects.keys()).sort(), ["Assets/Moved/a.jpg", "Assets/b.jpg"]);
+
+  await assert.rejects(provider.move("Assets/Moved/a.jpg", "Assets", "b.jpg"), FileExistsError);
+  assert.equal(objects.get("Assets/b.jpg")?.size, 2);
+});
+
+test("list and stat report sizes, skipping folder placeholders", async () => {
+  objects.set("Assets/Brand/", { size: 0 });
+  objects.set("Assets/Brand/a.jpg", { size: 3 });
+  objects.set("Other/b.jpg", { size: 4 });
+
+  const files = await provider.list("Assets");
+
+  assert.deepEqual(files.map(file => [file.path, file.size]), [["Assets/Brand/a.jpg", 3]]);
+  assert.equal((await provider.stat("Other/b.jpg"))?.size, 4);
+  assert.equal(await provider.stat("Other/missing.jpg"), null);
+});
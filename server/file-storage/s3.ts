@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import type { StorageProvider, PutFileInput, StoredFile, ByteRange, FileInfo, ListedFile } from "./types";
+import { FileExistsError } from "./errors";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl?: string; // base URL the bucket is served from, if not the endpoint
+}
+
+// Stores files in any S3-compatible bucket (AWS S3, MinIO, R2, ...).
+// Folders are key prefixes, so ensureFolder has nothing to create. A client
+// can be passed in so a fake one can stand in for it.
+export class S3StorageProvider implements StorageProvider {
+  readonly name = "s3" as const;
+  private client: S3Client;
+
+  constructor(private config: S3StorageConfig, client?: S3Client) {
+    this.client = client ?? new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      // MinIO and most self-hosted servers only support path-style URLs
+      forcePathStyle: !!config.endpoint,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  static fromEnv(): S3StorageProvider {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set to use the s3 storage provider");
+    }
+    return new S3StorageProvider({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      publicUrl: process.env.S3_PUBLIC_URL
+    });
+  }
+
+  async ensureFolder(folderPath: string): Promise<string> {
+    return folderPath.split("/").filter(Boolean).join("/");
+  }
+
+  getFolderUrl(folderId: string): string {
+    return `${this.baseUrl()}/${encodeKey(folderId)}/`;
+  }
+
+  async put(input: PutFileInput): Promise<StoredFile> {
+    const key = path.posix.join(input.folderId, input.name);
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: fs.createReadStream(input.localPath),
+        ContentLength: input.size,
+        ContentType: input.mimeType,
+        IfNoneMatch: "*" // fail rather than replace an existing object
+      }));
+    } catch (error) {
+      throw toFileExistsError(error, key);
+    }
+
+    await fs.promises.unlink(input.localPath);
+    return { key, url: this.getPublicUrl(key) };
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    }));
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key
+    }));
+  }
+
+  async move(key: string, folderId: string, name?: string): Promise<StoredFile> {
+    const newKey = path.posix.join(folderId, name ?? path.posix.basename(key));
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: this.config.bucket,
+        CopySource: `${this.config.bucket}/${encodeKey(key)}`,
+        Key: newKey,
+        IfNoneMatch: "*"
+      }));
+    } catch (error) {
+      throw toFileExistsError(error, newKey);
+    }
+    await this.delete(key);
+    return { key: newKey, url: this.getPublicUrl(newKey) };
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.baseUrl()}/${encodeKey(key)}`;
+  }
+
+  async list(folderPath: string): Promise<ListedFile[]> {
+    const prefix = await this.ensureFolder(folderPath);
+    const files: ListedFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: prefix ? `${prefix}/` : undefined,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of response.Contents ?? []) {
+        // Zero-byte "folder" placeholders some tools create
+        if (!object.Key || object.Key.endsWith("/")) continue;
+        files.push({
+          key: object.Key,
+          name: path.posix.basename(object.Key),
+          size: object.Size ?? 0,
+          url: this.getPublicUrl(object.Key),
+          path: object.Key
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return files;
+  }
+
+  async stat(key: string): Promise<FileInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key
+      }));
+      return {
+        key,
+        name: path.posix.basename(key),
+        size: response.ContentLength ?? 0,
+        mimeType: response.ContentType,
+        url: this.getPublicUrl(key)
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === "NotFound") return null;
+      throw error;
+    }
+  }
+
+  private baseUrl(): string {
+    if (this.config.publicUrl) return this.config.publicUrl.replace(/\/$/, "");
+    if (this.config.endpoint) return `${this.config.endpoint.replace(/\/$/, "")}/${this.config.bucket}`;
+    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com`;
+  }
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+// A conditional write refused because the key is taken: 412 when the object
+// exists, 409 when another write of the key is in flight
+function toFileExistsError(error: unknown, key: string): unknown {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return status === 412 || status === 409 ? new FileExistsError(key) : error;
+}
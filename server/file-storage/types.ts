@@ -0,0 +1,53 @@
+import type { Readable } from "stream";
+import type { StorageProviderName } from "@shared/schema";
+
+export interface PutFileInput {
+  localPath: string; // temp file to upload; removed once the upload succeeds
+  name: string;
+  mimeType: string;
+  size: number;
+  folderId: string; // as returned by ensureFolder
+}
+
+export interface StoredFile {
+  key: string; // Drive file id, path under uploads/ or object key
+  url: string;
+}
+
+export interface FileInfo {
+  key: string;
+  name: string;
+  size: number;
+  mimeType?: string;
+  url: string;
+}
+
+export interface ListedFile extends FileInfo {
+  path: string; // folder path plus name, e.g. Assets/Brand/.../2025_03_North_Brand_Static_V1.jpg
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+
+  // Creates (or finds) a slash-separated folder path and returns its id
+  ensureFolder(folderPath: string): Promise<string>;
+  getFolderUrl(folderId: string): string;
+
+  // Throws FileExistsError rather than replace a file stored under the same key
+  put(input: PutFileInput): Promise<StoredFile>;
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  move(key: string, folderId: string, name?: string): Promise<StoredFile>;
+  getPublicUrl(key: string): string;
+
+  // Every file below a folder path, recursively; empty if the folder doesn't exist
+  list(folderPath: string): Promise<ListedFile[]>;
+  // Current details of a stored file, or null if it no longer exists
+  stat(key: string): Promise<FileInfo | null>;
+}
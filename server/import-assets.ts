@@ -0,0 +1,58 @@
+// Imports an existing Assets/{category}/{region}/{state}/{resort}/{year}/
+// {month}/{assetType} folder tree. Runs as a dry run unless --apply is given:
+//   npm run import:assets -- <directory> [--apply]
+//   npm run import:assets -- --provider drive <folder path> [--apply]
+// e.g. npm run import:assets -- --provider drive "Archive/Assets" --apply
+import { importRequestSchema, type ImportReport } from "@shared/import";
+import { importAssets } from "./importer";
+import { pool } from "./db";
+
+const USAGE = "Usage: npm run import:assets -- <directory> | --provider <drive|local|s3> <folder path> [--apply]";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const apply = args.includes("--apply");
+  const positional = args.filter((arg) => arg !== "--apply");
+
+  let source;
+  if (positional[0] === "--provider") {
+    source = { type: "storage", provider: positional[1], folderPath: positional[2] };
+  } else {
+    source = { type: "directory", path: positional[0] };
+  }
+
+  const parsed = importRequestSchema.safeParse({ source, dryRun: !apply });
+  if (!parsed.success) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const report = await importAssets(parsed.data.source, { dryRun: parsed.data.dryRun });
+  printReport(report);
+  if (report.dryRun) {
+    console.log("\nDry run: nothing was imported. Re-run with --apply to import.");
+  }
+}
+
+function printReport(report: ImportReport) {
+  const sections: [string, keyof Omit<ImportReport, "dryRun">][] = [
+    [report.dryRun ? "Would import" : "Imported", "imported"],
+    ["Skipped", "skipped"],
+    ["Could not parse", "unparseable"],
+    ["Failed", "failed"],
+  ];
+  for (const [title, key] of sections) {
+    const entries = report[key];
+    console.log(`\n${title}: ${entries.length}`);
+    for (const entry of entries) {
+      console.log(`  ${entry.path}${entry.reason ? ` (${entry.reason})` : ""}`);
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to import assets:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
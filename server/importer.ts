@@ -0,0 +1,183 @@
+import fs from "fs";
+import path from "path";
+import { insertAssetSchema, type Asset } from "@shared/schema";
+import type { ImportReport, ImportSource } from "@shared/import";
+import { storage } from "./storage";
+import { getAssetFolderPath, parseAssetPath, isAssetSubfolderPath, type ParsedAssetPath } from "./naming";
+import { getProvider, getFileRef, storeFile, type StorageProvider, type ListedFile } from "./file-storage";
+import { hashFile } from "./duplicates";
+import { getMediaInfo } from "./media-info";
+
+// Creates asset records for a folder tree laid out and named the way uploads
+// are (see naming.ts), so years of existing files can be brought into the
+// library. Paths that don't follow the convention are reported, not guessed.
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".pdf": "application/pdf",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".zip": "application/zip",
+};
+
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream";
+}
+
+// Creates the record for a file that is already in storage, in place
+export async function createAssetFromStoredFile(
+  provider: StorageProvider,
+  file: ListedFile,
+  parsed: ParsedAssetPath,
+  uploadedBy?: string,
+): Promise<Asset> {
+  const folderId = await provider.ensureFolder(path.posix.dirname(file.path));
+  const mimeType = file.mimeType || guessMimeType(file.name);
+  return await storage.createAsset(insertAssetSchema.parse({
+    ...parsed,
+    filename: file.name,
+    originalName: file.name,
+    fileSize: file.size,
+    mimeType,
+    storageProvider: provider.name,
+    googleDriveFileId: file.key,
+    googleDriveFolderId: folderId,
+    driveLink: file.url,
+    versionsLink: provider.getFolderUrl(folderId),
+    thumbnailUrl: mimeType.startsWith("image/") ? file.url : null,
+    tags: []
+  }), uploadedBy);
+}
+
+// Uploads a file from a server directory into the primary storage. The
+// source is copied first because storing a file consumes it.
+async function createAssetFromLocalFile(
+  filePath: string,
+  parsed: ParsedAssetPath,
+  uploadedBy?: string,
+): Promise<Asset> {
+  const name = path.basename(filePath);
+  const mimeType = guessMimeType(name);
+  const { size } = await fs.promises.stat(filePath);
+  const contentHash = await hashFile(filePath);
+  const mediaInfo = await getMediaInfo(filePath, mimeType);
+
+  const tempPath = path.join(process.cwd(), "uploads", `import-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  await fs.promises.mkdir(path.dirname(tempPath), { recursive: true });
+  await fs.promises.copyFile(filePath, tempPath);
+
+  let stored;
+  try {
+    stored = await storeFile(getAssetFolderPath(parsed), { localPath: tempPath, name, mimeType, size });
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  return await storage.createAsset(insertAssetSchema.parse({
+    ...parsed,
+    filename: name,
+    originalName: name,
+    fileSize: size,
+    mimeType,
+    storageProvider: stored.provider,
+    googleDriveFileId: stored.key,
+    googleDriveFolderId: stored.folderId,
+    driveLink: stored.url,
+    versionsLink: stored.folderUrl,
+    thumbnailUrl: mimeType.startsWith("image/") ? stored.url : null,
+    contentHash,
+    ...mediaInfo,
+    tags: mediaInfo.keywords ?? []
+  }), uploadedBy);
+}
+
+async function listDirectory(root: string): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath);
+      } else if (entry.isFile() && !entry.name.startsWith(".")) {
+        files.push(entryPath);
+      }
+    }
+  };
+  await walk(root);
+  return files;
+}
+
+// Walks the source and imports every file that parses and isn't already in
+// the library. A dry run only reports what would happen.
+export async function importAssets(
+  source: ImportSource,
+  options: { dryRun: boolean; uploadedBy?: string },
+): Promise<ImportReport> {
+  const report: ImportReport = { dryRun: options.dryRun, imported: [], skipped: [], unparseable: [], failed: [] };
+
+  const records = await storage.getFileRecords();
+  const knownFilenames = new Set(records.map(record => record.filename));
+
+  const importEntry = async (
+    filePath: string,
+    filename: string,
+    isKnownFile: boolean,
+    create: (parsed: ParsedAssetPath) => Promise<Asset>,
+  ) => {
+    // Previews and carousel slides of assets already in the library
+    if (isAssetSubfolderPath(filePath)) return;
+
+    const parsed = parseAssetPath(filePath);
+    if (!parsed.ok) {
+      report.unparseable.push({ path: filePath, reason: parsed.reason });
+      return;
+    }
+    if (isKnownFile || knownFilenames.has(filename)) {
+      report.skipped.push({ path: filePath, filename, reason: "Already in the library" });
+      return;
+    }
+    // A second copy of the same file further down the tree is a duplicate
+    knownFilenames.add(filename);
+
+    if (options.dryRun) {
+      report.imported.push({ path: filePath, filename });
+      return;
+    }
+    try {
+      const asset = await create(parsed.asset);
+      report.imported.push({ path: filePath, filename, assetId: asset.id });
+    } catch (error) {
+      console.error(`Error importing ${filePath}:`, error);
+      report.failed.push({ path: filePath, filename, reason: (error as Error).message });
+    }
+  };
+
+  if (source.type === "storage") {
+    const provider = getProvider(source.provider);
+    const knownKeys = new Set(records
+      .map(record => getFileRef(record))
+      .filter(ref => ref.provider === provider.name)
+      .map(ref => ref.key));
+
+    for (const file of await provider.list(source.folderPath)) {
+      await importEntry(file.path, file.name, knownKeys.has(file.key),
+        parsed => createAssetFromStoredFile(provider, file, parsed, options.uploadedBy));
+    }
+  } else {
+    for (const filePath of await listDirectory(path.resolve(source.path))) {
+      await importEntry(filePath.split(path.sep).join("/"), path.basename(filePath), false,
+        parsed => createAssetFromLocalFile(filePath, parsed, options.uploadedBy));
+    }
+  }
+
+  return report;
+}
@@ -1,15 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import path from "path";
+import { startTrashPurge } from "./trash";
+import { startReconciliation } from "./reconciliation";
+import { startUploadSessionCleanup } from "./resumable-uploads";
+import { startRenditionBackfill } from "./thumbnails";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Serve uploaded files
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -70,5 +70,9 @@ app.use((req, res, next) => {
     host: "127.0.0.1",
   }, () => {
     log(`serving on port ${port}`);
+    startTrashPurge();
+    startReconciliation();
+    startUploadSessionCleanup();
+    startRenditionBackfill();
   });
 })();
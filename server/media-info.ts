@@ -0,0 +1,98 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import sharp from "sharp";
+import exifr from "exifr";
+import type { MediaInfo } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+interface ProbeOutput {
+  streams?: { codec_type?: string; codec_name?: string; width?: number; height?: number; duration?: string }[];
+  format?: { duration?: string };
+}
+
+// sharp's names for the colour spaces it reports
+const COLOR_SPACE_NAMES: Record<string, string> = {
+  srgb: "sRGB",
+  rgb16: "RGB",
+  cmyk: "CMYK",
+  "b-w": "Grayscale",
+  grey16: "Grayscale",
+  lab: "Lab",
+};
+
+function parseDuration(value?: string): number | null {
+  const duration = value ? parseFloat(value) : NaN;
+  return Number.isFinite(duration) ? duration : null;
+}
+
+// EXIF, IPTC and XMP values come as strings, lists or language alternatives
+function toText(value: unknown): string | null {
+  if (Array.isArray(value)) return toText(value.join(", "));
+  if (value && typeof value === "object" && "value" in value) return toText(value.value);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(toList);
+  const text = toText(value);
+  return text ? [text] : [];
+}
+
+async function getVideoInfo(localPath: string): Promise<Partial<MediaInfo>> {
+  const { stdout } = await execFileAsync("ffprobe", [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_format",
+    "-show_streams",
+    localPath
+  ]);
+  const probe: ProbeOutput = JSON.parse(stdout);
+  const video = probe.streams?.find(stream => stream.codec_type === "video");
+
+  return {
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    duration: parseDuration(probe.format?.duration) ?? parseDuration(video?.duration),
+    videoCodec: video?.codec_name ?? null
+  };
+}
+
+// IPTC fields win over XMP, which wins over the older EXIF ones
+async function getImageInfo(localPath: string): Promise<Partial<MediaInfo>> {
+  const metadata = await sharp(localPath).metadata();
+  const tags = await exifr.parse(localPath, { tiff: true, exif: false, gps: false, iptc: true, xmp: true, icc: true })
+    .catch(() => undefined) ?? {};
+
+  // Orientations 5-8 are rotated a quarter turn, so they display the other way round
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const keywords = Array.from(new Set([...toList(tags.Keywords), ...toList(tags.subject)]));
+
+  return {
+    width: (rotated ? metadata.height : metadata.width) ?? null,
+    height: (rotated ? metadata.width : metadata.height) ?? null,
+    colorSpace: toText(tags.ProfileDescription) ??
+      (metadata.space ? COLOR_SPACE_NAMES[metadata.space] ?? metadata.space : null),
+    dpi: metadata.density ? Math.round(metadata.density) : null,
+    creator: toText(tags.Byline) ?? toText(tags.creator) ?? toText(tags.Artist),
+    copyright: toText(tags.CopyrightNotice) ?? toText(tags.rights) ?? toText(tags.Copyright),
+    keywords: keywords.length > 0 ? keywords : null
+  };
+}
+
+// Reads technical details from an uploaded file: duration, resolution and
+// codec of videos (ffprobe); dimensions, colour space, DPI, creator,
+// copyright and keywords of images (sharp and exifr). Other files, and
+// files that can't be read, get no details; that's never a reason to
+// reject the upload.
+export async function getMediaInfo(localPath: string, mimeType: string): Promise<Partial<MediaInfo>> {
+  const isVideo = mimeType.startsWith("video/");
+  if (!isVideo && !mimeType.startsWith("image/")) return {};
+
+  try {
+    return isVideo ? await getVideoInfo(localPath) : await getImageInfo(localPath);
+  } catch (error) {
+    console.error(`Error reading media info from ${localPath}:`, error);
+    return {};
+  }
+}
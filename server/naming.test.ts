@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAssetPath, getAssetFolderPath, formatAssetName, type ParsedAssetPath } from "./naming";
+
+test("reads an asset's placement and version from its path", () => {
+  assert.deepEqual(parseAssetPath("Assets/Brand/North/NSW/Brand/2025/03/Static/2025_03_North_Brand_Static_V3.jpg"), {
+    ok: true,
+    asset: { category: "Brand", region: "North", state: "NSW", resort: null, year: 2025, month: 3, assetType: "Static", version: 3 },
+  });
+});
+
+test("resorts may contain underscores and the tree may sit below other folders", () => {
+  const result = parseAssetPath("Shared/Marketing/Assets/Events/South/VIC/Falls_Creek/2024/12/Video/2024_12_South_Falls_Creek_Video_V12.mp4");
+
+  assert.ok(result.ok);
+  assert.equal(result.asset.resort, "Falls_Creek");
+  assert.equal(result.asset.assetType, "Video");
+  assert.equal(result.asset.version, 12);
+});
+
+test("reverses the folder and name that uploads are stored under", () => {
+  const asset: ParsedAssetPath = { category: "Brand", region: "West", state: "WA", resort: "Margaret River", year: 2025, month: 7, assetType: "Carousel", version: 2 };
+  const filePath = `${getAssetFolderPath(asset)}/${formatAssetName(asset, asset.version)}.png`;
+
+  assert.deepEqual(parseAssetPath(filePath), { ok: true, asset });
+});
+
+test("refuses paths outside the tree, unconventional names and disagreements", () => {
+  const reasons = [
+    "Brand/North/NSW/Brand/2025/03/Static/2025_03_North_Brand_Static_V3.jpg",
+    "Assets/Brand/North/NSW/Brand/2025/03/Static/logo.jpg",
+    "Assets/Brand/North/NSW/Brand/2025/04/Static/2025_03_South_Brand_Static_V3.jpg",
+    "Assets/Brand/North/NSW/Brand/2025/13/Static/2025_13_North_Brand_Static_V3.jpg",
+  ].map(filePath => {
+    const result = parseAssetPath(filePath);
+    return result.ok ? null : result.reason;
+  });
+
+  assert.match(reasons[0]!, /Not in an Assets\//);
+  assert.match(reasons[1]!, /does not follow/);
+  assert.equal(reasons[2], "Filename and folder disagree on month, region");
+  assert.equal(reasons[3], 'Invalid month "13"');
+});
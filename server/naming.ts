@@ -0,0 +1,122 @@
+// Asset naming convention: YYYY_MM_Region_Resort_Type_Vn, e.g.
+// 2025_03_North_Resort_Static_V3. Assets without a resort use "Brand".
+
+export interface AssetNamingKey {
+  year: number;
+  month: number;
+  region: string;
+  resort: string | null;
+  assetType: string;
+}
+
+export function formatAssetName(key: AssetNamingKey, version: number): string {
+  const month = key.month.toString().padStart(2, '0');
+  return `${key.year}_${month}_${key.region}_${key.resort || 'Brand'}_${key.assetType}_V${version}`;
+}
+
+export function getNamingKey(asset: AssetNamingKey): AssetNamingKey {
+  return {
+    year: asset.year,
+    month: asset.month,
+    region: asset.region,
+    resort: asset.resort,
+    assetType: asset.assetType
+  };
+}
+
+// Folder an asset's files live in:
+// Assets/{category}/{region}/{state}/{resort}/{year}/{month}/{assetType}
+export function getAssetFolderPath(asset: AssetNamingKey & { category: string; state: string }): string {
+  const month = asset.month.toString().padStart(2, '0');
+  return `Assets/${asset.category}/${asset.region}/${asset.state}/${asset.resort || 'Brand'}/${asset.year}/${month}/${asset.assetType}`;
+}
+
+// Generated previews and carousel slides live in folders beside the asset's
+// file; scans of the asset tree skip them
+export const RENDITION_FOLDER = "_renditions";
+export const SLIDE_FOLDER = "_slides";
+
+export function getRenditionFolderPath(asset: AssetNamingKey & { category: string; state: string }): string {
+  return `${getAssetFolderPath(asset)}/${RENDITION_FOLDER}`;
+}
+
+export function getSlideFolderPath(asset: AssetNamingKey & { category: string; state: string }): string {
+  return `${getAssetFolderPath(asset)}/${SLIDE_FOLDER}`;
+}
+
+// Slide n of an asset named 2025_03_North_Brand_Carousel_V3 is
+// 2025_03_North_Brand_Carousel_V3_S0n
+export function formatSlideName(assetName: string, position: number): string {
+  return `${assetName}_S${(position + 1).toString().padStart(2, '0')}`;
+}
+
+export function isAssetSubfolderPath(filePath: string): boolean {
+  const segments = filePath.split("/");
+  return segments.includes(RENDITION_FOLDER) || segments.includes(SLIDE_FOLDER);
+}
+
+export interface ParsedAssetPath extends AssetNamingKey {
+  category: string;
+  state: string;
+  version: number;
+}
+
+export type AssetPathParseResult =
+  | { ok: true; asset: ParsedAssetPath }
+  | { ok: false; reason: string };
+
+const ASSET_NAME_PATTERN = /^(\d{4})_(\d{2})_([^_]+)_(.+)_([^_]+)_V(\d+)$/;
+
+// Reverses getAssetFolderPath + formatAssetName for a file path such as
+// Assets/Brand/North/NSW/Brand/2025/03/Static/2025_03_North_Brand_Static_V3.jpg.
+// The folder supplies category and state, the filename the version; the
+// fields both carry have to agree.
+export function parseAssetPath(filePath: string): AssetPathParseResult {
+  const segments = filePath.split("/").filter(Boolean);
+  const rootIndex = segments.length - 9;
+  if (rootIndex < 0 || segments[rootIndex] !== "Assets") {
+    return { ok: false, reason: "Not in an Assets/{category}/{region}/{state}/{resort}/{year}/{month}/{assetType} folder" };
+  }
+
+  const [, category, region, state, resortFolder, yearFolder, monthFolder, assetType, filename] =
+    segments.slice(rootIndex);
+  const baseName = filename.replace(/\.[^.]+$/, "");
+  const match = ASSET_NAME_PATTERN.exec(baseName);
+  if (!match) {
+    return { ok: false, reason: `Filename "${filename}" does not follow YYYY_MM_Region_Resort_Type_Vn` };
+  }
+
+  const [, year, month, nameRegion, nameResort, nameType, version] = match;
+  const mismatches = [
+    [year, yearFolder, "year"],
+    [month, monthFolder, "month"],
+    [nameRegion, region, "region"],
+    [nameResort, resortFolder, "resort"],
+    [nameType, assetType, "asset type"],
+  ].filter(([fromName, fromFolder]) => fromName !== fromFolder);
+  if (mismatches.length > 0) {
+    return {
+      ok: false,
+      reason: `Filename and folder disagree on ${mismatches.map(([, , field]) => field).join(", ")}`
+    };
+  }
+
+  const monthNumber = parseInt(month, 10);
+  if (monthNumber < 1 || monthNumber > 12) {
+    return { ok: false, reason: `Invalid month "${month}"` };
+  }
+
+  return {
+    ok: true,
+    asset: {
+      category,
+      region,
+      state,
+      resort: resortFolder === "Brand" ? null : resortFolder,
+      year: parseInt(year, 10),
+      month: monthNumber,
+      assetType,
+      version: parseInt(version, 10)
+    }
+  };
+}
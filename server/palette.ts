@@ -0,0 +1,110 @@
+import sharp from "sharp";
+import type { PaletteColor } from "@shared/schema";
+
+// Dominant colours are found on a small copy of the image: pixels are
+// bucketed by their top four bits per channel, then buckets that look alike
+// (within MERGE_DISTANCE in CIELAB) are merged, largest first. Distances are
+// CIE76 delta E, where about 2 is barely noticeable and 20 is a clearly
+// different shade.
+
+const SAMPLE_SIZE = 64;
+const MERGE_DISTANCE = 15;
+const MIN_SHARE = 0.05;
+const MAX_COLORS = 6;
+
+// A palette colour this close to the chosen colour matches the colour filter
+export const COLOR_MATCH_DISTANCE = 20;
+
+type Lab = Pick<PaletteColor, "l" | "a" | "b">;
+
+function toLinear(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+// sRGB to CIELAB, D65 white point
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  return {
+    l: 116 * f(y) - 16,
+    a: 500 * (f(x) - f(y)),
+    b: 200 * (f(y) - f(z))
+  };
+}
+
+// "#14b8a6" or "14b8a6"; null if it isn't a six-digit hex colour
+export function hexToLab(hex: string): Lab | null {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return null;
+  return rgbToLab(parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16));
+}
+
+function labDistance(first: Lab, second: Lab): number {
+  return Math.hypot(first.l - second.l, first.a - second.a, first.b - second.b);
+}
+
+interface Swatch {
+  count: number;
+  r: number; // channel sums, averaged at the end
+  g: number;
+  b: number;
+  lab: Lab;
+}
+
+export async function extractPalette(imagePath: string): Promise<PaletteColor[]> {
+  const { data, info } = await sharp(imagePath)
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "inside" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map<number, Swatch>();
+  for (let i = 0; i < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0, lab: { l: 0, a: 0, b: 0 } };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const swatches: Swatch[] = [];
+  const sorted = Array.from(buckets.values()).sort((first, second) => second.count - first.count);
+  for (const bucket of sorted) {
+    bucket.lab = rgbToLab(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count);
+    const similar = swatches.find(swatch => labDistance(swatch.lab, bucket.lab) <= MERGE_DISTANCE);
+    if (similar) {
+      similar.count += bucket.count;
+      similar.r += bucket.r;
+      similar.g += bucket.g;
+      similar.b += bucket.b;
+    } else {
+      swatches.push(bucket);
+    }
+  }
+
+  const total = info.width * info.height;
+  return swatches
+    .filter(swatch => swatch.count / total >= MIN_SHARE)
+    .sort((first, second) => second.count - first.count)
+    .slice(0, MAX_COLORS)
+    .map(swatch => {
+      const rgb = [swatch.r, swatch.g, swatch.b].map(sum => Math.round(sum / swatch.count));
+      const lab = rgbToLab(rgb[0], rgb[1], rgb[2]);
+      return {
+        hex: `#${rgb.map(channel => channel.toString(16).padStart(2, "0")).join("")}`,
+        l: Math.round(lab.l * 10) / 10,
+        a: Math.round(lab.a * 10) / 10,
+        b: Math.round(lab.b * 10) / 10,
+        share: Math.round(swatch.count / total * 1000) / 1000
+      };
+    });
+}
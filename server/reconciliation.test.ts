@@ -0,0 +1,250 @@
+import { test, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Asset } from "@shared/schema";
+import { storage, type FileRecord, type FileRecordChanges } from "./storage";
+import { DriveStorageProvider, LocalStorageProvider, setProvider } from "./file-storage";
+import { FakeDrive } from "./file-storage/fake-drive";
+import {
+  reconcileProvider,
+  runReconciliation,
+  getLastReconciliationReport,
+  applyReconciliationFix,
+  ReconciliationError,
+} from "./reconciliation";
+
+// A Drive holding one asset folder, and the records pointing into it:
+//   V1     matches its record
+//   V2     is bigger than its record says            -> size_mismatch
+//   V3     was dragged out of the asset tree         -> moved
+//   V4     was deleted; a same-named copy sits in    -> missing, with the
+//          another folder with no record                copy as a candidate
+//   V5     was deleted and was already marked so     -> missing, no fixes
+//   notes  doesn't follow the naming convention      -> orphaned, no fixes
+// A rendition in _renditions is ignored; a carousel slide in _slides is
+// found through its record.
+
+const ASSET_FOLDER = "Assets/Brand/North/NSW/Brand/2025/03/Static";
+const PLACEMENT = {
+  category: "Brand",
+  region: "North",
+  state: "NSW",
+  resort: null,
+  year: 2025,
+  month: 3,
+  assetType: "Static",
+};
+
+let drive: FakeDrive;
+let provider: DriveStorageProvider;
+let records: FileRecord[];
+let keys: Record<string, string>;
+let localRoot: string;
+
+function record(assetId: string, key: string, filename: string, fileSize: number, missingAt: Date | null = null): FileRecord {
+  return {
+    assetId,
+    versionId: null,
+    slideId: null,
+    filename,
+    storageProvider: "drive",
+    googleDriveFileId: key,
+    driveLink: `https://drive.test/${key}`,
+    fileSize,
+    missingAt,
+    asset: PLACEMENT,
+  };
+}
+
+beforeEach(async () => {
+  drive = new FakeDrive();
+  provider = new DriveStorageProvider(drive.asClient());
+  const folder = drive.addFolderPath(ASSET_FOLDER);
+  const otherFolder = drive.addFolderPath("Assets/Brand/North/NSW/Brand/2025/04/Static");
+  const renditions = drive.addFolder("_renditions", folder);
+  const slides = drive.addFolder("_slides", folder);
+  const elsewhere = drive.addFolder("Desktop");
+  const addFile = (name: string, parent: string, size: number) =>
+    drive.add({ name, mimeType: "image/jpeg", parents: [parent], size: String(size) });
+
+  keys = {
+    current: addFile("2025_03_North_Brand_Static_V1.jpg", folder, 10),
+    resized: addFile("2025_03_North_Brand_Static_V2.jpg", folder, 25),
+    moved: addFile("2025_03_North_Brand_Static_V3.jpg", elsewhere, 30),
+    copy: addFile("2025_04_North_Brand_Static_V4.jpg", otherFolder, 40),
+    notes: addFile("notes.jpg", folder, 5),
+  };
+  addFile("preview.webp", renditions, 1);
+  keys.slide = addFile("2025_03_North_Brand_Static_V1_S02.jpg", slides, 15);
+
+  records = [
+    record("asset-1", keys.current, "2025_03_North_Brand_Static_V1.jpg", 10),
+    record("asset-2", keys.resized, "2025_03_North_Brand_Static_V2.jpg", 20),
+    record("asset-3", keys.moved, "2025_03_North_Brand_Static_V3.jpg", 30),
+    record("asset-4", "deleted-4", "2025_04_North_Brand_Static_V4.jpg", 40),
+    record("asset-5", "deleted-5", "2025_03_North_Brand_Static_V5.jpg", 50, new Date()),
+    { ...record("asset-1", keys.slide, "2025_03_North_Brand_Static_V1_S02.jpg", 15), slideId: "slide-2" },
+  ];
+
+  // Fixes run against the fake Drive; the local primary gets an empty tree
+  localRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), "reconciliation-test-"));
+  setProvider(provider);
+  setProvider(new LocalStorageProvider(localRoot));
+  mock.method(storage, "getFileRecords", async () => records);
+});
+
+afterEach(async () => {
+  mock.restoreAll();
+  await fs.promises.rm(localRoot, { recursive: true, force: true });
+});
+
+type UpdatedRecord = Pick<FileRecord, "assetId" | "versionId" | "slideId">;
+
+function mockUpdates(): { records: UpdatedRecord[]; changes: FileRecordChanges }[] {
+  const updates: { records: UpdatedRecord[]; changes: FileRecordChanges }[] = [];
+  mock.method(storage, "updateFileRecords", async (updated: UpdatedRecord[], changes: FileRecordChanges) => {
+    updates.push({ records: updated, changes });
+  });
+  return updates;
+}
+
+test("reconcileProvider finds missing, orphaned, resized and moved files", async () => {
+  const { fileCount, issues } = await reconcileProvider(provider, records);
+
+  assert.equal(fileCount, 4);
+  assert.deepEqual(
+    issues.map(issue => [issue.type, issue.key, issue.fixes]).sort(),
+    [
+      ["missing", "deleted-4", ["relink", "mark_missing"]],
+      ["missing", "deleted-5", []],
+      ["moved", keys.moved, ["move_back"]],
+      ["orphaned", keys.copy, ["import"]],
+      ["orphaned", keys.notes, []],
+      ["size_mismatch", keys.resized, ["sync_size"]],
+    ].sort()
+  );
+
+  const missing = issues.find(issue => issue.key === "deleted-4")!;
+  assert.deepEqual(missing.candidates?.map(file => file.key), [keys.copy]);
+  assert.equal(issues.find(issue => issue.type === "size_mismatch")!.actualSize, 25);
+  assert.match(issues.find(issue => issue.key === keys.notes)!.importError!, /does not follow/);
+});
+
+test("reconcileProvider groups revisions sharing a file", async () => {
+  records.push({ ...record("asset-4", "deleted-4", "2025_04_North_Brand_Static_V4.jpg", 40), versionId: "version-1" });
+
+  const { issues } = await reconcileProvider(provider, records);
+
+  const missing = issues.filter(issue => issue.key === "deleted-4");
+  assert.equal(missing.length, 1);
+  assert.deepEqual(missing[0].records.map(record => record.versionId), [null, "version-1"]);
+});
+
+test("reconcileProvider reports a missing carousel slide", async () => {
+  records.push({ ...record("asset-1", "deleted-slide", "2025_03_North_Brand_Static_V1_S03.jpg", 15), slideId: "slide-3" });
+
+  const { issues } = await reconcileProvider(provider, records);
+
+  const missing = issues.find(issue => issue.key === "deleted-slide")!;
+  assert.equal(missing.type, "missing");
+  assert.deepEqual(missing.records.map(record => record.slideId), ["slide-3"]);
+  assert.ok(!issues.some(issue => issue.key === keys.slide));
+});
+
+test("runReconciliation reports every provider in use", async () => {
+  const report = await runReconciliation();
+
+  assert.deepEqual(report.providers, [{ name: "drive", fileCount: 4 }, { name: "local", fileCount: 0 }]);
+  assert.equal(report.issues.length, 6);
+});
+
+test("relink points the records at the chosen file and clears its orphan issue", async () => {
+  await runReconciliation();
+  const updates = mockUpdates();
+
+  await applyReconciliationFix({ issueId: "missing:drive:deleted-4", fix: "relink", targetKey: keys.copy });
+
+  assert.equal(updates.length, 1);
+  assert.deepEqual(updates[0].records.map(record => record.assetId), ["asset-4"]);
+  assert.deepEqual(updates[0].changes, {
+    storageProvider: "drive",
+    googleDriveFileId: keys.copy,
+    driveLink: `https://drive.test/${keys.copy}`,
+    fileSize: 40,
+    missingAt: null,
+  });
+  const remaining = getLastReconciliationReport()!.issues.map(issue => issue.id);
+  assert.ok(!remaining.includes("missing:drive:deleted-4"));
+  assert.ok(!remaining.includes(`orphaned:drive:${keys.copy}`));
+});
+
+test("relink refuses a file that wasn't suggested", async () => {
+  await runReconciliation();
+  mockUpdates();
+
+  await assert.rejects(
+    applyReconciliationFix({ issueId: "missing:drive:deleted-4", fix: "relink", targetKey: keys.notes }),
+    (error: ReconciliationError) => error.status === 400
+  );
+});
+
+test("mark_missing stamps the records", async () => {
+  await runReconciliation();
+  const updates = mockUpdates();
+
+  await applyReconciliationFix({ issueId: "missing:drive:deleted-4", fix: "mark_missing" });
+
+  assert.ok(updates[0].changes.missingAt instanceof Date);
+});
+
+test("sync_size copies the stored file's size to the records", async () => {
+  await runReconciliation();
+  const updates = mockUpdates();
+
+  await applyReconciliationFix({ issueId: `size_mismatch:drive:${keys.resized}`, fix: "sync_size" });
+
+  assert.deepEqual(updates[0].records.map(record => record.assetId), ["asset-2"]);
+  assert.deepEqual(updates[0].changes, { fileSize: 25 });
+});
+
+test("move_back returns the file to its asset's folder", async () => {
+  await runReconciliation();
+  const updates = mockUpdates();
+  mock.method(storage, "getAsset", async () => ({ id: "asset-3", ...PLACEMENT }) as Asset);
+
+  await applyReconciliationFix({ issueId: `moved:drive:${keys.moved}`, fix: "move_back" });
+
+  const { issues } = await reconcileProvider(provider, records);
+  assert.ok(!issues.some(issue => issue.key === keys.moved));
+  assert.deepEqual(updates[0].changes, { googleDriveFileId: keys.moved, driveLink: `https://drive.test/${keys.moved}` });
+});
+
+test("import creates an asset from the orphan's path", async () => {
+  await runReconciliation();
+  const createAsset = mock.method(storage, "createAsset", async () => ({}) as Asset);
+
+  await applyReconciliationFix({ issueId: `orphaned:drive:${keys.copy}`, fix: "import" });
+
+  const [created] = createAsset.mock.calls[0].arguments;
+  assert.equal(created.filename, "2025_04_North_Brand_Static_V4.jpg");
+  assert.equal(created.month, 4);
+  assert.equal(created.version, 4);
+  assert.equal(created.googleDriveFileId, keys.copy);
+  assert.equal(created.fileSize, 40);
+});
+
+test("fixes that don't apply, or issues no longer reported, are refused", async () => {
+  await runReconciliation();
+  mockUpdates();
+
+  await assert.rejects(
+    applyReconciliationFix({ issueId: "missing:drive:deleted-5", fix: "mark_missing" }),
+    (error: ReconciliationError) => error.status === 400
+  );
+  await assert.rejects(
+    applyReconciliationFix({ issueId: "missing:drive:unknown", fix: "mark_missing" }),
+    (error: ReconciliationError) => error.status === 404
+  );
+});
@@ -0,0 +1,250 @@
+import { STORAGE_PROVIDERS, type StorageProviderName } from "@shared/schema";
+import type {
+  ReconciliationIssue,
+  ReconciliationReport,
+  ReconciliationFixRequest,
+} from "@shared/reconciliation";
+import { storage, type FileRecord } from "./storage";
+import { getAssetFolderPath, getSlideFolderPath, parseAssetPath, isAssetSubfolderPath } from "./naming";
+import { createAssetFromStoredFile } from "./importer";
+import {
+  getProvider,
+  getPrimaryProvider,
+  getFileRef,
+  type StorageProvider,
+} from "./file-storage";
+import { log } from "./vite";
+
+// Compares the file references held in the database with what is actually
+// in storage. People rearrange the Drive folder tree by hand, so records can
+// end up pointing at deleted files while uploads sit in folders nobody links
+// to. The job reports those differences; an admin picks a fix per issue.
+
+// Folder the asset tree lives under on every provider
+const ASSETS_ROOT = "Assets";
+
+// A fix that can't be applied to the issue as reported
+export class ReconciliationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+// Compares one provider's asset tree with the records stored on it. Takes
+// the provider as an argument so it can run against a fake Drive client.
+export async function reconcileProvider(
+  provider: StorageProvider,
+  records: FileRecord[],
+): Promise<{ fileCount: number; issues: ReconciliationIssue[] }> {
+  // Slides live in a subfolder beside their asset's file; subfolders count
+  // as in the tree but aren't checked for orphans
+  const treeFiles = await provider.list(ASSETS_ROOT);
+  const files = treeFiles.filter(file => !isAssetSubfolderPath(file.path));
+  const filesByKey = new Map(treeFiles.map(file => [file.key, file]));
+
+  // Revisions and cover slides share files with their asset, so group
+  // records per file
+  const recordsByKey = new Map<string, FileRecord[]>();
+  for (const record of records) {
+    const ref = getFileRef(record);
+    if (ref.provider !== provider.name) continue;
+    recordsByKey.set(ref.key, [...(recordsByKey.get(ref.key) ?? []), record]);
+  }
+
+  const issues: ReconciliationIssue[] = [];
+  const missing: ReconciliationIssue[] = [];
+
+  for (const [key, keyRecords] of Array.from(recordsByKey.entries())) {
+    const base = {
+      provider: provider.name,
+      key,
+      records: keyRecords.map(({ assetId, versionId, slideId, filename, fileSize, missingAt }) =>
+        ({ assetId, versionId, slideId, filename, fileSize, missingAt })),
+    };
+    const listed = filesByKey.get(key);
+    const file = listed ?? await provider.stat(key);
+
+    if (!file) {
+      const issue: ReconciliationIssue = {
+        ...base,
+        id: `missing:${provider.name}:${key}`,
+        type: "missing",
+        fixes: keyRecords.every(record => record.missingAt) ? [] : ["mark_missing"],
+      };
+      missing.push(issue);
+      issues.push(issue);
+      continue;
+    }
+
+    if (!listed) {
+      issues.push({
+        ...base,
+        id: `moved:${provider.name}:${key}`,
+        type: "moved",
+        actualSize: file.size,
+        fixes: ["move_back"],
+      });
+    }
+    // Drive reports no size for native Google files; nothing to compare
+    if (file.size > 0 && keyRecords.some(record => record.fileSize !== file.size)) {
+      issues.push({
+        ...base,
+        id: `size_mismatch:${provider.name}:${key}`,
+        type: "size_mismatch",
+        actualSize: file.size,
+        fixes: ["sync_size"],
+      });
+    }
+  }
+
+  const orphans = files.filter(file => !recordsByKey.has(file.key));
+  for (const file of orphans) {
+    const parsed = parseAssetPath(file.path);
+    issues.push({
+      id: `orphaned:${provider.name}:${file.key}`,
+      type: "orphaned",
+      provider: provider.name,
+      key: file.key,
+      path: file.path,
+      actualSize: file.size,
+      records: [],
+      importError: parsed.ok ? undefined : parsed.reason,
+      fixes: parsed.ok ? ["import"] : [],
+    });
+  }
+
+  // A file renamed or moved within the tree shows up as a missing record
+  // plus an orphan; suggest orphans with the same name or size to re-link
+  for (const issue of missing) {
+    const names = new Set(issue.records.map(record => record.filename));
+    const sizes = new Set(issue.records.map(record => record.fileSize));
+    issue.candidates = orphans.filter(file => names.has(file.name) || sizes.has(file.size));
+    if (issue.candidates.length > 0) issue.fixes.unshift("relink");
+  }
+
+  return { fileCount: files.length, issues };
+}
+
+let lastReport: ReconciliationReport | null = null;
+let running: Promise<ReconciliationReport> | null = null;
+
+export function getLastReconciliationReport(): ReconciliationReport | null {
+  return lastReport;
+}
+
+// Reconciles every provider that holds files, plus the one uploads go to.
+// Concurrent callers share the run in progress.
+export function runReconciliation(): Promise<ReconciliationReport> {
+  running ??= reconcileAll().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+async function reconcileAll(): Promise<ReconciliationReport> {
+  const startedAt = new Date();
+  const records = await storage.getFileRecords();
+  const providerNames = new Set<StorageProviderName>(records.map(record => getFileRef(record).provider));
+  providerNames.add(getPrimaryProvider().name);
+
+  const report: ReconciliationReport = { startedAt, finishedAt: startedAt, providers: [], issues: [] };
+  for (const name of STORAGE_PROVIDERS.filter(name => providerNames.has(name))) {
+    try {
+      const result = await reconcileProvider(getProvider(name), records);
+      report.providers.push({ name, fileCount: result.fileCount });
+      report.issues.push(...result.issues);
+    } catch (error) {
+      console.error(`Error reconciling ${name} storage:`, error);
+      report.providers.push({ name, fileCount: 0, error: (error as Error).message });
+    }
+  }
+
+  report.finishedAt = new Date();
+  lastReport = report;
+  return report;
+}
+
+// Applies an admin's chosen fix to an issue from the last report and
+// removes the issue from it
+export async function applyReconciliationFix(request: ReconciliationFixRequest): Promise<ReconciliationIssue> {
+  const issue = lastReport?.issues.find(candidate => candidate.id === request.issueId);
+  if (!issue) {
+    throw new ReconciliationError("Issue not found; run the reconciliation again", 404);
+  }
+  if (!issue.fixes.includes(request.fix)) {
+    throw new ReconciliationError(`"${request.fix}" does not apply to this issue`);
+  }
+
+  const provider = getProvider(issue.provider);
+  switch (request.fix) {
+    case "relink": {
+      const target = issue.candidates?.find(file => file.key === request.targetKey);
+      if (!target) {
+        throw new ReconciliationError("Pick one of the suggested files to re-link to");
+      }
+      const file = await provider.stat(target.key);
+      if (!file) {
+        throw new ReconciliationError("That file no longer exists", 409);
+      }
+      await storage.updateFileRecords(issue.records, {
+        storageProvider: provider.name,
+        googleDriveFileId: file.key,
+        driveLink: file.url,
+        fileSize: file.size,
+        missingAt: null,
+      });
+      // The target is no longer an orphan
+      lastReport!.issues = lastReport!.issues.filter(other => other.id !== `orphaned:${provider.name}:${file.key}`);
+      break;
+    }
+    case "mark_missing":
+      await storage.updateFileRecords(issue.records, { missingAt: new Date() });
+      break;
+    case "sync_size":
+      await storage.updateFileRecords(issue.records, { fileSize: issue.actualSize! });
+      break;
+    case "move_back": {
+      const asset = await storage.getAsset(issue.records[0].assetId);
+      if (!asset) {
+        throw new ReconciliationError("Asset not found", 404);
+      }
+      const folderPath = issue.records.every(record => record.slideId) ? getSlideFolderPath(asset) : getAssetFolderPath(asset);
+      const folderId = await provider.ensureFolder(folderPath);
+      const moved = await provider.move(issue.key, folderId);
+      await storage.updateFileRecords(issue.records, {
+        googleDriveFileId: moved.key,
+        driveLink: moved.url,
+      });
+      break;
+    }
+    case "import":
+      await importOrphanedFile(provider, issue);
+      break;
+  }
+
+  lastReport!.issues = lastReport!.issues.filter(other => other.id !== issue.id);
+  return issue;
+}
+
+async function importOrphanedFile(provider: StorageProvider, issue: ReconciliationIssue) {
+  const parsed = parseAssetPath(issue.path!);
+  const file = await provider.stat(issue.key);
+  if (!parsed.ok || !file) {
+    throw new ReconciliationError(parsed.ok ? "That file no longer exists" : parsed.reason, 409);
+  }
+  await createAssetFromStoredFile(provider, { ...file, path: issue.path! }, parsed.asset);
+}
+
+// RECONCILIATION_INTERVAL_HOURS sets how often the job runs on its own
+// (default daily); 0 leaves it to admins to run from the report page
+export function startReconciliation() {
+  const hours = parseFloat(process.env.RECONCILIATION_INTERVAL_HOURS || "24");
+  if (!(hours > 0)) return;
+
+  setInterval(() => {
+    runReconciliation()
+      .then(report => log(`reconciliation found ${report.issues.length} issue(s)`))
+      .catch(error => console.error("Error running reconciliation:", error));
+  }, hours * 60 * 60 * 1000).unref();
+}
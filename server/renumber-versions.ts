@@ -0,0 +1,146 @@
+// Gives duplicate asset versions new numbers so the unique indexes on
+// generated names (assets_name_version_idx, asset_versions_asset_version_idx)
+// can be created. Uploads that raced each other used to get the same
+// version; run this once before `npm run db:push`. Runs as a dry run unless
+// --apply is given:
+//   npm run db:renumber-versions -- [--apply]
+// The oldest asset keeps each name; later ones move to the next free
+// version under their naming key, and their files are renamed to match.
+import path from "path";
+import { and, eq } from "drizzle-orm";
+import { assets, assetVersions, assetSlides, type Asset, type AssetVersion } from "@shared/schema";
+import { db, pool } from "./db";
+import { formatAssetName, getNamingKey } from "./naming";
+import { getProvider, getFileRef } from "./file-storage";
+
+function namingKeyId(asset: Asset): string {
+  return [asset.year, asset.month, asset.region, asset.resort ?? "", asset.assetType].join("|");
+}
+
+// Assets sharing a name, in upload order, and the highest version in use
+// per naming key
+function findDuplicateAssets(rows: Asset[]): { duplicates: Asset[][]; latest: Map<string, number> } {
+  const byName = new Map<string, Asset[]>();
+  const latest = new Map<string, number>();
+  for (const asset of rows) {
+    const key = namingKeyId(asset);
+    byName.set(`${key}|${asset.version}`, [...(byName.get(`${key}|${asset.version}`) ?? []), asset]);
+    latest.set(key, Math.max(latest.get(key) ?? 0, asset.version));
+  }
+  return { duplicates: Array.from(byName.values()).filter(group => group.length > 1), latest };
+}
+
+async function renumberAsset(asset: Asset, version: number, apply: boolean) {
+  const namingKey = getNamingKey(asset);
+  const filename = `${formatAssetName(namingKey, version)}${path.extname(asset.filename)}`;
+  console.log(`  ${asset.filename} (${asset.id}) -> ${filename}`);
+  if (!apply) return;
+
+  const ref = getFileRef(asset);
+  const folderId = ref.provider === "drive" ? asset.googleDriveFolderId : path.posix.dirname(ref.key);
+  let file = { key: ref.key, url: asset.driveLink };
+  try {
+    file = await getProvider(ref.provider).move(ref.key, folderId, filename);
+  } catch (error) {
+    // Still renumbered, so the index can be created; reconciliation will
+    // report the file
+    console.error(`    Could not rename ${ref.key}: ${(error as Error).message}`);
+  }
+  const fileChanges = {
+    filename,
+    storageProvider: ref.provider,
+    googleDriveFileId: file.key,
+    driveLink: file.url,
+  };
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(assetVersions)
+      .set({
+        ...fileChanges,
+        version,
+        ...(asset.thumbnailUrl === asset.driveLink ? { thumbnailUrl: file.url } : {}),
+      })
+      .where(and(
+        eq(assetVersions.assetId, asset.id),
+        eq(assetVersions.version, asset.version),
+        eq(assetVersions.driveLink, asset.driveLink),
+      ));
+    // A carousel's cover slide is the asset's own file
+    await tx
+      .update(assetSlides)
+      .set(fileChanges)
+      .where(and(eq(assetSlides.assetId, asset.id), eq(assetSlides.driveLink, asset.driveLink)));
+    await tx
+      .update(assets)
+      .set({
+        ...fileChanges,
+        version,
+        ...(asset.thumbnailUrl === asset.driveLink ? { thumbnailUrl: file.url } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(assets.id, asset.id));
+  });
+}
+
+// Revisions of one asset sharing a number. The row for the asset's current
+// file keeps it (else the oldest); the others only need a new number, since
+// their files already have distinct names or ids.
+async function renumberRevisions(asset: Asset, revisions: AssetVersion[], apply: boolean): Promise<number> {
+  const byVersion = new Map<number, AssetVersion[]>();
+  for (const revision of revisions) {
+    byVersion.set(revision.version, [...(byVersion.get(revision.version) ?? []), revision]);
+  }
+
+  let latest = Math.max(asset.version, ...revisions.map(revision => revision.version));
+  let count = 0;
+  for (const group of Array.from(byVersion.values()).filter(group => group.length > 1)) {
+    const kept = group.find(revision => revision.version === asset.version && revision.driveLink === asset.driveLink) ?? group[0];
+    for (const revision of group.filter(revision => revision !== kept)) {
+      latest++;
+      count++;
+      console.log(`  ${asset.filename} (${asset.id}): revision V${revision.version} (${revision.id}) -> V${latest}`);
+      if (apply) {
+        await db.update(assetVersions).set({ version: latest }).where(eq(assetVersions.id, revision.id));
+      }
+    }
+  }
+  return count;
+}
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+
+  const rows = await db.select().from(assets).orderBy(assets.uploadDate, assets.id);
+  const { duplicates, latest } = findDuplicateAssets(rows);
+  console.log(`Assets sharing a name with an older one: ${duplicates.reduce((sum, group) => sum + group.length - 1, 0)}`);
+  for (const [kept, ...renumbered] of duplicates) {
+    console.log(`${kept.filename} (kept by ${kept.id})`);
+    for (const asset of renumbered) {
+      const key = namingKeyId(asset);
+      const version = latest.get(key)! + 1;
+      latest.set(key, version);
+      await renumberAsset(asset, version, apply);
+    }
+  }
+
+  // Re-read, since renumbered assets took their current revision along
+  const current = apply ? await db.select().from(assets) : rows;
+  const revisions = await db.select().from(assetVersions).orderBy(assetVersions.createdAt, assetVersions.id);
+  let revisionCount = 0;
+  for (const asset of current) {
+    revisionCount += await renumberRevisions(asset, revisions.filter(revision => revision.assetId === asset.id), apply);
+  }
+  console.log(`Revisions sharing a number within their asset: ${revisionCount}`);
+
+  if (!apply) {
+    console.log("\nDry run: nothing was changed. Re-run with --apply to renumber.");
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to renumber versions:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
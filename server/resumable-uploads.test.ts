@@ -0,0 +1,72 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough, Readable } from "stream";
+import type { UploadSession } from "@shared/schema";
+import { storage } from "./storage";
+
+// Session files go under the working directory, so run from a temp one
+let rootDir: string;
+let originalDir: string;
+let uploads: typeof import("./resumable-uploads");
+
+const session = {
+  id: "session-1",
+  userId: "user-1",
+  filename: "photo.jpg",
+  mimeType: "image/jpeg",
+  size: 8,
+  offset: 0,
+} as UploadSession;
+
+before(async () => {
+  originalDir = process.cwd();
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "resumable-uploads-test-"));
+  process.chdir(rootDir);
+  uploads = await import("./resumable-uploads");
+  mock.method(storage, "updateUploadSessionOffset", async () => {});
+  await uploads.createSessionFile(session);
+});
+
+after(async () => {
+  mock.restoreAll();
+  process.chdir(originalDir);
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+test("a chunk sent while another is still arriving is refused", async () => {
+  const slow = new PassThrough();
+  const first = uploads.appendChunk(session, 0, slow);
+
+  await assert.rejects(
+    uploads.appendChunk(session, 0, Readable.from([Buffer.from("abcd")])),
+    (error: Error) => error instanceof uploads.UploadBusyError && error.status === 409
+  );
+
+  slow.end(Buffer.from("abcd"));
+  assert.equal(await first, 4);
+});
+
+test("a chunk sent again after it arrived is refused with the current offset", async () => {
+  // The session row still says 0, as when both requests read it
+  await assert.rejects(
+    uploads.appendChunk(session, 0, Readable.from([Buffer.from("abcd")])),
+    (error: Error) => error instanceof uploads.UploadOffsetError && error.expectedOffset === 4
+  );
+
+  assert.equal(await uploads.appendChunk(session, 4, Readable.from([Buffer.from("efgh")])), 8);
+  assert.equal(await fs.promises.readFile(uploads.getSessionFilePath(session), "utf8"), "abcdefgh");
+});
+
+test("sessions whose file was taken by a failed completion are removed", async () => {
+  const deleted = mock.method(storage, "deleteUploadSession", async () => {});
+  const kept = { ...session, id: "session-2" };
+  await uploads.createSessionFile(kept);
+  await fs.promises.rm(uploads.getSessionFilePath(session));
+
+  await uploads.deleteConsumedSessions([session, kept]);
+
+  assert.deepEqual(deleted.mock.calls.map(call => call.arguments[0]), ["session-1"]);
+});
@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { UploadSession } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Resumable uploads: the client creates a session, sends the file in chunks
+// with PATCH requests carrying an Upload-Offset header (as in tus), and asks
+// the server for the current offset to carry on after an interruption. The
+// partial file lives in uploads/.sessions, which the /uploads static route
+// won't serve because it ignores dot folders.
+
+const SESSION_DIR = path.join(process.cwd(), "uploads", ".sessions");
+
+// file_size is a 32-bit integer column
+export const MAX_RESUMABLE_UPLOAD_BYTES = 2 ** 31 - 1;
+
+// Sessions nobody has sent a chunk to for this long are abandoned
+const SESSION_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// The chunk's offset doesn't match what the server has; the client should
+// ask for the current offset and continue from there
+export class UploadOffsetError extends Error {
+  status = 409;
+
+  constructor(public expectedOffset: number) {
+    super(`Upload-Offset must be ${expectedOffset}`);
+    this.name = "UploadOffsetError";
+  }
+}
+
+// Another request is already appending to or completing the upload
+export class UploadBusyError extends Error {
+  status = 409;
+
+  constructor() {
+    super("Another request is already using this upload");
+    this.name = "UploadBusyError";
+  }
+}
+
+// Sessions a request is appending to or completing. Session files are on
+// this server's disk, so an in-process lock is enough.
+const lockedSessions = new Set<string>();
+
+// Runs work that reads or changes the session files, refusing rather than
+// waiting if another request holds any of them
+export async function withSessionLock<T>(sessionIds: string[], run: () => Promise<T>): Promise<T> {
+  if (sessionIds.some(id => lockedSessions.has(id))) {
+    throw new UploadBusyError();
+  }
+  sessionIds.forEach(id => lockedSessions.add(id));
+  try {
+    return await run();
+  } finally {
+    sessionIds.forEach(id => lockedSessions.delete(id));
+  }
+}
+
+export function getSessionFilePath(session: UploadSession): string {
+  return path.join(SESSION_DIR, session.id);
+}
+
+export async function createSessionFile(session: UploadSession): Promise<void> {
+  await fs.promises.mkdir(SESSION_DIR, { recursive: true });
+  await fs.promises.writeFile(getSessionFilePath(session), "");
+}
+
+// Appends a chunk at the given offset and returns the new offset. If the
+// connection drops mid-chunk, whatever arrived is kept and the offset says
+// how far it got. The offset is checked against the file itself, since the
+// session row may have been read before an earlier chunk finished.
+export async function appendChunk(session: UploadSession, offset: number, chunk: Readable): Promise<number> {
+  return await withSessionLock([session.id], async () => {
+    const filePath = getSessionFilePath(session);
+    const currentOffset = (await fs.promises.stat(filePath)).size;
+    if (offset !== currentOffset) {
+      throw new UploadOffsetError(currentOffset);
+    }
+    return await writeChunk(session, filePath, offset, chunk);
+  });
+}
+
+async function writeChunk(session: UploadSession, filePath: string, offset: number, chunk: Readable): Promise<number> {
+  let received = 0;
+  const limit = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      received += data.length;
+      if (offset + received > session.size) {
+        callback(new Error("Chunk goes past the declared upload size"));
+      } else {
+        callback(null, data);
+      }
+    }
+  });
+
+  let newOffset = offset;
+  try {
+    await pipeline(chunk, limit, fs.createWriteStream(filePath, { flags: "a" }));
+  } finally {
+    newOffset = (await fs.promises.stat(filePath)).size;
+    await storage.updateUploadSessionOffset(session.id, newOffset);
+  }
+
+  return newOffset;
+}
+
+// Sessions whose file has already been taken into storage, by a completion
+// that then failed, can't be completed again, so they're removed. The rest
+// are kept for a retry.
+export async function deleteConsumedSessions(sessions: UploadSession[]): Promise<void> {
+  for (const session of sessions) {
+    if (!fs.existsSync(getSessionFilePath(session))) {
+      await storage.deleteUploadSession(session.id);
+    }
+  }
+}
+
+export async function deleteSession(session: UploadSession): Promise<void> {
+  await fs.promises.rm(getSessionFilePath(session), { force: true });
+  await storage.deleteUploadSession(session.id);
+}
+
+async function deleteExpiredSessions(): Promise<number> {
+  const expired = await storage.getUploadSessionsUpdatedBefore(new Date(Date.now() - SESSION_EXPIRY_MS));
+  for (const session of expired) {
+    await deleteSession(session);
+  }
+  return expired.length;
+}
+
+// Cleans up abandoned sessions at startup and then hourly
+export function startUploadSessionCleanup() {
+  const run = () => {
+    deleteExpiredSessions()
+      .then(deleted => {
+        if (deleted > 0) log(`removed ${deleted} abandoned upload session(s)`);
+      })
+      .catch(error => console.error("Error removing abandoned upload sessions:", error));
+  };
+
+  run();
+  setInterval(run, 60 * 60 * 1000).unref();
+}
@@ -1,12 +1,60 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertAssetSchema, updateAssetSchema } from "@shared/schema";
+import { storage, CursorError, type AssetFilters } from "./storage";
+import { setupAuth, requireAuth, requireRole, hashPassword, toPublicUser } from "./auth";
+import {
+  insertAssetSchema,
+  updateAssetSchema,
+  insertUserSchema,
+  updateUserSchema,
+  insertUploadSessionSchema,
+  carouselUploadSchema,
+  reorderSlidesSchema,
+  RENDITION_SIZES,
+  ORIENTATIONS,
+  ASSET_SORTS,
+  type Asset,
+  type InsertAssetSlide,
+  type Orientation,
+  type AssetSort,
+  type RenditionSize,
+  type UploadFields,
+  type UploadSession,
+} from "@shared/schema";
+import { formatAssetName, formatSlideName, getNamingKey, getAssetFolderPath, getSlideFolderPath } from "./naming";
+import { storeOrRenameFile, getProvider, FileStorageError, type StoredAssetFile } from "./file-storage";
+import { withNextVersion } from "./versions";
+import { purgeAsset, TRASH_RETENTION_DAYS } from "./trash";
+import { sendStoredFile } from "./downloads";
+import { streamAssetArchive } from "./archives";
+import { queueRenditions } from "./thumbnails";
+import { importAssets } from "./importer";
+import { hashFile, backfillContentHashes } from "./duplicates";
+import { getMediaInfo } from "./media-info";
+import { getEmailerPreview, EmailerError } from "./emailers";
+import { getNearDuplicateGroups, SIMILAR_MAX_DISTANCE } from "./similarity";
+import {
+  appendChunk,
+  createSessionFile,
+  deleteConsumedSessions,
+  deleteSession,
+  getSessionFilePath,
+  MAX_RESUMABLE_UPLOAD_BYTES,
+  UploadBusyError,
+  UploadOffsetError,
+  withSessionLock,
+} from "./resumable-uploads";
+import { runReconciliation, getLastReconciliationReport, applyReconciliationFix, ReconciliationError } from "./reconciliation";
+import { canUpload, canEditAsset, canDeleteAsset } from "@shared/permissions";
+import { reconciliationFixSchema } from "@shared/reconciliation";
+import { importRequestSchema } from "@shared/import";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import multer from "multer";
-import { google } from "googleapis";
 import ExcelJS from "exceljs";
 import path from "path";
 import fs from "fs";
+import { pipeline } from "stream/promises";
 
 // Configure multer for file uploads
 const upload = multer({ 
@@ -14,62 +62,102 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
 });
 
-// Google Drive API setup (optional if credentials are provided)
-let drive: any = null;
-try {
-  if (process.env.GOOGLE_CREDENTIALS_PATH) {
-    drive = google.drive({
-      version: 'v3',
-      auth: new google.auth.GoogleAuth({
-        keyFile: process.env.GOOGLE_CREDENTIALS_PATH,
-        scopes: ['https://www.googleapis.com/auth/drive.file']
-      })
-    });
+// "Recent Uploads" view window
+const RECENT_UPLOADS_DAYS = 30;
+
+// What an upload may do with files that are already in the library
+const DUPLICATE_ACTIONS = ["link", "version", "upload"];
+
+// A file received by multer or assembled from a resumable upload
+type UploadedFile = Pick<Express.Multer.File, "path" | "originalname" | "mimetype" | "size">;
+
+// Tags typed on the upload form, followed by any keywords embedded in the
+// file that aren't among them
+function getUploadTags(tags: string | undefined, keywords: string[] | null | undefined): string[] {
+  const formTags = tags ? tags.split(',').map(tag => tag.trim()) : [];
+  const known = new Set(formTags.map(tag => tag.toLowerCase()));
+  return [...formTags, ...(keywords ?? []).filter(keyword => !known.has(keyword.toLowerCase()))];
+}
+
+function getSessionFile(session: UploadSession): UploadedFile {
+  return {
+    path: getSessionFilePath(session),
+    originalname: session.filename,
+    mimetype: session.mimeType,
+    size: session.size
+  };
+}
+
+// Dashboard filters and sidebar view from query parameters
+function parseAssetFilters(query: Request["query"]): AssetFilters {
+  const { category, assetType, region, state, resort, startDate, endDate, search, orientation, width, height, color, sort, view } = query;
+
+  const filters: AssetFilters = {
+    category: category as string,
+    assetType: assetType as string,
+    region: region as string,
+    state: state as string,
+    resort: resort as string,
+    startDate: startDate ? new Date(startDate as string) : undefined,
+    endDate: endDate ? new Date(endDate as string) : undefined,
+    search: search as string,
+    orientation: ORIENTATIONS.includes(orientation as Orientation) ? orientation as Orientation : undefined,
+    width: width ? parseInt(width as string, 10) || undefined : undefined,
+    height: height ? parseInt(height as string, 10) || undefined : undefined,
+    color: color as string,
+    sort: ASSET_SORTS.includes(sort as AssetSort) ? sort as AssetSort : undefined
+  };
+
+  // Sidebar views narrow the listing further
+  if (view === "favorites") {
+    filters.favorites = true;
+  } else if (view === "recent" && !filters.startDate) {
+    filters.startDate = new Date(Date.now() - RECENT_UPLOADS_DAYS * 24 * 60 * 60 * 1000);
+  } else if (view === "trash") {
+    filters.trashed = true;
   }
-} catch (error) {
-  console.log('Google Drive credentials not configured, using local storage');
+  return filters;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  setupAuth(app);
+
+  // Everything below requires a logged-in user
+  app.use("/api/assets", requireAuth);
+  app.use("/api/stats", requireAuth);
+  app.use("/api/uploads", requireAuth);
+  app.use("/api/users", requireRole("admin"));
+  app.use("/api/admin", requireRole("admin"));
+
+  // Serve uploaded files
+  app.use("/uploads", requireAuth, express.static(path.join(process.cwd(), "uploads")));
+
   // Get all assets with filtering
   app.get("/api/assets", async (req, res) => {
     try {
-      const {
-        category,
-        assetType,
-        region,
-        state,
-        resort,
-        startDate,
-        endDate,
-        search,
-        limit = 20,
-        offset = 0
-      } = req.query;
-
-      const filters = {
-        category: category as string,
-        assetType: assetType as string,
-        region: region as string,
-        state: state as string,
-        resort: resort as string,
-        startDate: startDate ? new Date(startDate as string) : undefined,
-        endDate: endDate ? new Date(endDate as string) : undefined,
-        search: search as string,
-        limit: parseInt(limit as string),
-        offset: parseInt(offset as string)
+      const { limit = 20, offset = 0, cursor } = req.query;
+      const filters: AssetFilters = {
+        ...parseAssetFilters(req.query),
+        // At most 100 per page, so one request can't ask for the whole library
+        limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), 100),
+        offset: Math.max(parseInt(offset as string) || 0, 0),
+        cursor: cursor as string | undefined
       };
 
-      const assets = await storage.getAssets(filters);
-      const totalCount = await storage.getAssetCount();
+      const { assets, nextCursor } = await storage.getAssetPage(filters);
+      const totalCount = await storage.getAssetCount(filters);
 
       res.json({
         assets,
         totalCount,
-        hasMore: (parseInt(offset as string) + parseInt(limit as string)) < totalCount
+        hasMore: nextCursor !== null,
+        nextCursor,
+        trashRetentionDays: TRASH_RETENTION_DAYS
       });
     } catch (error) {
+      if (error instanceof CursorError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error fetching assets:", error);
       res.status(500).json({ message: "Failed to fetch assets" });
     }
@@ -89,6 +177,277 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get an asset's file revisions, newest first
+  app.get("/api/assets/:id/versions", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      const versions = await storage.getAssetVersions(asset.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching asset versions:", error);
+      res.status(500).json({ message: "Failed to fetch asset versions" });
+    }
+  });
+
+  // Preview rendition of an asset: small for the grid and list, medium for
+  // the preview modal
+  app.get("/api/assets/:id/thumbnail/:size", async (req, res) => {
+    try {
+      const size = req.params.size as RenditionSize;
+      if (!RENDITION_SIZES.includes(size)) {
+        return res.status(404).json({ message: `Unknown rendition size "${size}"` });
+      }
+
+      const rendition = await storage.getRendition(req.params.id, size);
+      if (!rendition) {
+        return res.status(404).json({ message: "No preview available" });
+      }
+
+      const stream = await getProvider(rendition.storageProvider).getStream(rendition.storageKey);
+      res.type("image/webp");
+      res.setHeader("Content-Length", rendition.fileSize);
+      // Thumbnail URLs carry the asset version, so a cached copy never goes stale
+      res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+      pipeline(stream, res).catch(() => res.destroy());
+    } catch (error) {
+      console.error("Error fetching thumbnail:", error);
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
+    }
+  });
+
+  // Download an asset's current file from whichever backend stores it
+  app.get("/api/assets/:id/download", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      // A carousel comes as a ZIP of its slides
+      const slides = await storage.getSlides(asset.id);
+      if (slides.length > 1) {
+        return await streamAssetArchive(res, [asset], req.user!.id, `${path.parse(asset.filename).name}.zip`);
+      }
+
+      // Seeking within a video requests later ranges; only count the start
+      if (await sendStoredFile(req, res, asset)) {
+        await storage.recordDownload({ assetId: asset.id, userId: req.user!.id });
+      }
+    } catch (error) {
+      console.error("Error downloading asset:", error);
+      if (res.headersSent) return res.destroy();
+      if (error instanceof FileStorageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to download asset" });
+    }
+  });
+
+  // Play an asset's file in the browser. Same as a download, but shown
+  // inline and not counted as one.
+  app.get("/api/assets/:id/stream", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      await sendStoredFile(req, res, asset, { inline: true });
+    } catch (error) {
+      console.error("Error streaming asset:", error);
+      if (res.headersSent) return;
+      if (error instanceof FileStorageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to stream asset" });
+    }
+  });
+
+  // A carousel's slides, in order
+  app.get("/api/assets/:id/slides", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      res.json(await storage.getSlides(asset.id));
+    } catch (error) {
+      console.error("Error fetching slides:", error);
+      res.status(500).json({ message: "Failed to fetch slides" });
+    }
+  });
+
+  // Change the order of a carousel's slides
+  app.put("/api/assets/:id/slides", async (req, res) => {
+    try {
+      const { slideIds } = reorderSlidesSchema.parse(req.body);
+
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      if (!canEditAsset(req.user!, asset)) {
+        return res.status(403).json({ message: "You cannot edit assets in this region" });
+      }
+
+      const slides = await storage.getSlides(asset.id);
+      const known = new Set(slides.map(slide => slide.id));
+      if (slideIds.length !== slides.length || new Set(slideIds).size !== slideIds.length ||
+          slideIds.some(id => !known.has(id))) {
+        return res.status(400).json({ message: "slideIds must list each of the asset's slides once" });
+      }
+
+      res.json(await storage.reorderSlides(asset.id, slideIds));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      console.error("Error reordering slides:", error);
+      res.status(500).json({ message: "Failed to reorder slides" });
+    }
+  });
+
+  // Show a slide in the preview modal's carousel
+  app.get("/api/assets/:id/slides/:slideId/stream", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      const slides = await storage.getSlides(asset.id);
+      const slide = slides.find(slide => slide.id === req.params.slideId);
+      if (!slide) {
+        return res.status(404).json({ message: "Slide not found" });
+      }
+
+      await sendStoredFile(req, res, slide, { inline: true });
+    } catch (error) {
+      console.error("Error streaming slide:", error);
+      if (res.headersSent) return;
+      if (error instanceof FileStorageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to stream slide" });
+    }
+  });
+
+  // Rendered HTML and details of an Emailer asset for the preview modal
+  app.get("/api/assets/:id/emailer", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      res.json(await getEmailerPreview(asset));
+    } catch (error) {
+      console.error("Error building emailer preview:", error);
+      if (error instanceof EmailerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to build emailer preview" });
+    }
+  });
+
+  // Assets that look like this one, closest first
+  app.get("/api/assets/:id/similar", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      if (!asset.perceptualHash) {
+        return res.status(409).json({ message: "This asset hasn't been analysed yet; try again once its preview is ready" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 24, 100);
+      res.json(await storage.getSimilarAssets(asset, SIMILAR_MAX_DISTANCE, limit));
+    } catch (error) {
+      console.error("Error finding similar assets:", error);
+      res.status(500).json({ message: "Failed to find similar assets" });
+    }
+  });
+
+  // Download an earlier revision of an asset
+  app.get("/api/assets/:id/versions/:versionId/download", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      const version = await storage.getAssetVersion(req.params.versionId);
+      if (!version || version.assetId !== asset.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      if (await sendStoredFile(req, res, version)) {
+        await storage.recordDownload({ assetId: version.assetId, versionId: version.id, userId: req.user!.id });
+      }
+    } catch (error) {
+      console.error("Error downloading asset version:", error);
+      if (res.headersSent) return;
+      if (error instanceof FileStorageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to download asset version" });
+    }
+  });
+
+  // Show an earlier revision in the compare view. Not counted as a download.
+  app.get("/api/assets/:id/versions/:versionId/stream", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      const version = await storage.getAssetVersion(req.params.versionId);
+      if (!version || version.assetId !== asset.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      await sendStoredFile(req, res, version, { inline: true });
+    } catch (error) {
+      console.error("Error streaming asset version:", error);
+      if (res.headersSent) return;
+      if (error instanceof FileStorageError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to stream asset version" });
+    }
+  });
+
+  // Download assets as a ZIP: the ids given, or else everything matching
+  // the dashboard filters
+  app.get("/api/assets/export/zip", async (req, res) => {
+    try {
+      const ids = typeof req.query.ids === "string"
+        ? req.query.ids.split(",").filter(Boolean)
+        : undefined;
+      if (ids && ids.length === 0) {
+        return res.status(400).json({ message: "No assets selected" });
+      }
+
+      const assets = await storage.getAssets(ids ? { ids } : parseAssetFilters(req.query));
+      if (assets.length === 0) {
+        return res.status(404).json({ message: "No assets to download" });
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+      await streamAssetArchive(res, assets, req.user!.id, `assets-${date}.zip`);
+    } catch (error) {
+      console.error("Error building asset archive:", error);
+      // Too late for an error response once the archive has started
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to build archive" });
+    }
+  });
+
   // Export assets to Excel
   app.get("/api/assets/export/excel", async (req, res) => {
     try {
@@ -167,110 +526,565 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Upload assets
-  app.post("/api/assets/upload", upload.array('files'), async (req, res) => {
+  // Stores an uploaded temp file as the next revision of an asset, next to
+  // its current file
+  const addUploadedRevision = async (
+    asset: Asset,
+    file: UploadedFile,
+    revision: { uploadedBy: string; note: string | null; contentHash: string },
+  ) => {
+    // Stay ahead of other assets sharing the same naming key
+    const namingKey = getNamingKey(asset);
+    const mediaInfo = await getMediaInfo(file.path, file.mimetype);
+
+    // Revisions join the asset's own provider and folder, not the primary
+    let stored: StoredAssetFile | undefined;
+    const updatedAsset = await withNextVersion(namingKey, asset.version, async (version) => {
+      const fullFilename = `${formatAssetName(namingKey, version)}${path.extname(file.originalname)}`;
+      stored = await storeOrRenameFile(stored, getAssetFolderPath(asset), {
+        localPath: file.path,
+        name: fullFilename,
+        mimeType: file.mimetype,
+        size: file.size
+      }, asset);
+
+      return await storage.addAssetRevision(asset, {
+        assetId: asset.id,
+        version,
+        filename: fullFilename,
+        storageProvider: stored.provider,
+        googleDriveFileId: stored.key,
+        driveLink: stored.url,
+        thumbnailUrl: file.mimetype.startsWith('image/') ? stored.url : null,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        contentHash: revision.contentHash,
+        ...mediaInfo,
+        uploadedBy: revision.uploadedBy,
+        note: revision.note
+      });
+    });
+    queueRenditions(updatedAsset);
+    return updatedAsset;
+  };
+
+  // Turns uploaded temp files, in slide order, into one Carousel asset and
+  // sends the response. The first file becomes the asset's own file and
+  // the rest go to the slide folder beside it. Slides aren't checked for
+  // duplicates, since carousels often reuse one.
+  const createCarouselAsset = async (req: Request, res: Response, files: UploadedFile[], fields: UploadFields) => {
+    const { category, assetType, region, state, resort, tags } = fields;
+    const year = new Date().getFullYear();
+    const month = new Date().getMonth() + 1;
+    const namingKey = { year, month, region, resort: resort || null, assetType };
+    const folderKey = { ...namingKey, category, state };
+
+    // Read before storing, which moves the temp files away
+    const contentHashes: string[] = [];
+    for (const file of files) {
+      contentHashes.push(await hashFile(file.path));
+    }
+    const mediaInfo = await getMediaInfo(files[0].path, files[0].mimetype);
+
+    // Files stored by earlier attempts, renamed when the version moves on
+    const storedFiles: StoredAssetFile[] = [];
+    const asset = await withNextVersion(namingKey, 0, async (version) => {
+      const assetName = formatAssetName(namingKey, version);
+      const slides: Omit<InsertAssetSlide, "assetId">[] = [];
+      for (let position = 0; position < files.length; position++) {
+        const file = files[position];
+        const filename = `${position === 0 ? assetName : formatSlideName(assetName, position)}${path.extname(file.originalname)}`;
+        const stored = await storeOrRenameFile(storedFiles[position], position === 0 ? getAssetFolderPath(folderKey) : getSlideFolderPath(folderKey), {
+          localPath: file.path,
+          name: filename,
+          mimeType: file.mimetype,
+          size: file.size
+        });
+        storedFiles[position] = stored;
+        slides.push({
+          position,
+          filename,
+          originalName: file.originalname,
+          storageProvider: stored.provider,
+          googleDriveFileId: stored.key,
+          driveLink: stored.url,
+          fileSize: file.size,
+          mimeType: file.mimetype,
+          contentHash: contentHashes[position]
+        });
+      }
+
+      const [cover] = slides;
+      return await storage.createAsset(insertAssetSchema.parse({
+        filename: cover.filename,
+        originalName: cover.originalName,
+        category,
+        assetType,
+        region,
+        state,
+        resort: resort || null,
+        year,
+        month,
+        version,
+        fileSize: cover.fileSize,
+        mimeType: cover.mimeType,
+        storageProvider: cover.storageProvider,
+        googleDriveFileId: cover.googleDriveFileId,
+        googleDriveFolderId: storedFiles[0].folderId,
+        driveLink: cover.driveLink,
+        versionsLink: storedFiles[0].folderUrl,
+        thumbnailUrl: cover.mimeType.startsWith('image/') ? cover.driveLink : null,
+        contentHash: cover.contentHash,
+        ...mediaInfo,
+        tags: getUploadTags(tags, mediaInfo.keywords)
+      }), req.user!.id, slides);
+    });
+    queueRenditions(asset);
+
+    res.json({
+      message: "Carousel uploaded successfully",
+      assets: [asset],
+      linked: []
+    });
+  };
+
+  // Turns uploaded temp files into assets and sends the response. A
+  // Carousel upload becomes one asset with the files as its slides. Files
+  // identical to an existing asset are reported with a 409 unless
+  // duplicateAction says what to do with them: "link" to the existing asset,
+  // add them as a new "version" of it, or "upload" anyway. Rejected files are
+  // deleted unless keepRejectedFiles is set, so a resumable upload can be
+  // completed again. Resolves to whether the files were consumed.
+  const createUploadedAssets = async (
+    req: Request,
+    res: Response,
+    files: UploadedFile[],
+    fields: UploadFields & { duplicateAction?: string },
+    keepRejectedFiles = false,
+  ): Promise<boolean> => {
+    const discardFiles = () => {
+      if (!keepRejectedFiles) files.forEach(file => fs.unlink(file.path, () => {}));
+    };
+
     try {
-      const files = req.files as any[];
-      if (!files || files.length === 0) {
-        return res.status(400).json({ message: "No files uploaded" });
+      const { category, assetType, region, state, resort, tags, duplicateAction } = fields;
+      if (!canUpload(req.user!, region)) {
+        discardFiles();
+        res.status(403).json({ message: `You cannot upload assets to the ${region} region` });
+        return false;
+      }
+      if (assetType === "Carousel") {
+        await createCarouselAsset(req, res, files, fields);
+        return true;
+      }
+      if (duplicateAction && !DUPLICATE_ACTIONS.includes(duplicateAction)) {
+        discardFiles();
+        res.status(400).json({ message: `Unknown duplicate action "${duplicateAction}"` });
+        return false;
+      }
+
+      const uploads = [];
+      for (const file of files) {
+        const contentHash = await hashFile(file.path);
+        uploads.push({ file, contentHash, existing: await storage.getAssetsByContentHash(contentHash) });
+      }
+
+      const duplicates = uploads.filter(upload => upload.existing.length > 0);
+      if (duplicates.length > 0 && !duplicateAction) {
+        discardFiles();
+        res.status(409).json({
+          message: `${duplicates.length} file(s) already exist in the library`,
+          duplicates: duplicates.map(duplicate => ({
+            originalName: duplicate.file.originalname,
+            contentHash: duplicate.contentHash,
+            assets: duplicate.existing
+          }))
+        });
+        return false;
+      }
+      if (duplicateAction === "version" && duplicates.some(duplicate => !canEditAsset(req.user!, duplicate.existing[0]))) {
+        discardFiles();
+        res.status(403).json({ message: "You cannot add versions to assets in that region" });
+        return false;
       }
 
-      const { category, assetType, region, state, resort, tags } = req.body;
       const uploadedAssets = [];
+      const linkedAssets = [];
+
+      for (const { file, contentHash, existing } of uploads) {
+        if (existing.length > 0 && duplicateAction === "link") {
+          fs.unlink(file.path, () => {});
+          linkedAssets.push(existing[0]);
+          continue;
+        }
+        if (existing.length > 0 && duplicateAction === "version") {
+          uploadedAssets.push(await addUploadedRevision(existing[0], file, {
+            uploadedBy: req.user!.id,
+            note: `Uploaded as ${file.originalname}`,
+            contentHash
+          }));
+          continue;
+        }
 
-      for (const file of files) {
         // Generate unique filename following convention
         const year = new Date().getFullYear();
         const month = new Date().getMonth() + 1;
-        const version = 1; // TODO: Check for existing versions
-        
-        const filename = `${year}_${month.toString().padStart(2, '0')}_${region}_${resort || 'Brand'}_${assetType}_V${version}`;
+        const namingKey = { year, month, region, resort: resort || null, assetType };
         const extension = path.extname(file.originalname);
-        const fullFilename = `${filename}${extension}`;
-
-        let driveFileId = 'local';
-        let driveFolderId = 'local';
-        let driveLink = `/uploads/${file.filename}`;
-        let versionsLink = `/uploads/`;
-        let thumbnailUrl = null;
-
-        if (drive) {
-          try {
-            // Create folder structure in Google Drive
-            const folderPath = `Assets/${category}/${region}/${state}/${resort || 'Brand'}/${year}/${month.toString().padStart(2, '0')}/${assetType}`;
-            const folderId = await createDriveFolder(folderPath);
-
-            // Upload file to Google Drive
-            const fileMetadata = {
-              name: fullFilename,
-              parents: [folderId]
-            };
+        const mediaInfo = await getMediaInfo(file.path, file.mimetype);
 
-            const media = {
+        let stored: StoredAssetFile | undefined;
+        const asset = await withNextVersion(namingKey, 0, async (version) => {
+          const fullFilename = `${formatAssetName(namingKey, version)}${extension}`;
+          stored = await storeOrRenameFile(
+            stored,
+            getAssetFolderPath({ category, assetType, region, state, resort: resort || null, year, month }),
+            {
+              localPath: file.path,
+              name: fullFilename,
               mimeType: file.mimetype,
-              body: fs.createReadStream(file.path)
-            };
-
-            const driveResponse = await drive.files.create({
-              requestBody: fileMetadata,
-              media: media,
-              fields: 'id,webViewLink'
-            });
-
-            driveFileId = driveResponse.data.id!;
-            driveFolderId = folderId;
-            driveLink = driveResponse.data.webViewLink!;
-            versionsLink = `https://drive.google.com/drive/folders/${folderId}`;
-            thumbnailUrl = file.mimetype.startsWith('image/') ? driveResponse.data.webViewLink! : null;
-
-            // Clean up local file
-            fs.unlinkSync(file.path);
-          } catch (error) {
-            console.log('Google Drive upload failed, keeping local file:', error.message);
-            // Keep the local file as fallback
-          }
-        } else {
-          // Keep local file and create a local URL
-          const localPath = path.join('uploads', file.filename);
-          if (file.mimetype.startsWith('image/')) {
-            thumbnailUrl = `/uploads/${file.filename}`;
-          }
-        }
+              size: file.size
+            }
+          );
 
-        // Create asset record
-        const assetData = {
-          filename: fullFilename,
-          originalName: file.originalname,
-          category,
-          assetType,
-          region,
-          state,
-          resort: resort || null,
-          year,
-          month,
-          version,
-          fileSize: file.size,
-          mimeType: file.mimetype,
-          googleDriveFileId: driveFileId,
-          googleDriveFolderId: driveFolderId,
-          driveLink: driveLink,
-          versionsLink: versionsLink,
-          thumbnailUrl: thumbnailUrl,
-          tags: tags ? tags.split(',').map((tag: string) => tag.trim()) : []
-        };
-
-        const validatedData = insertAssetSchema.parse(assetData);
-        const asset = await storage.createAsset(validatedData);
+          // Create asset record
+          const assetData = {
+            filename: fullFilename,
+            originalName: file.originalname,
+            category,
+            assetType,
+            region,
+            state,
+            resort: resort || null,
+            year,
+            month,
+            version,
+            fileSize: file.size,
+            mimeType: file.mimetype,
+            storageProvider: stored.provider,
+            googleDriveFileId: stored.key,
+            googleDriveFolderId: stored.folderId,
+            driveLink: stored.url,
+            versionsLink: stored.folderUrl,
+            thumbnailUrl: file.mimetype.startsWith('image/') ? stored.url : null,
+            contentHash,
+            ...mediaInfo,
+            tags: getUploadTags(tags, mediaInfo.keywords)
+          };
+
+          const validatedData = insertAssetSchema.parse(assetData);
+          return await storage.createAsset(validatedData, req.user!.id);
+        });
+        queueRenditions(asset);
         uploadedAssets.push(asset);
       }
 
       res.json({ 
         message: "Assets uploaded successfully", 
-        assets: uploadedAssets 
+        assets: uploadedAssets,
+        linked: linkedAssets
       });
+      return true;
     } catch (error) {
       console.error("Error uploading assets:", error);
       res.status(500).json({ message: "Failed to upload assets" });
+      return false;
+    }
+  };
+
+  // Upload assets
+  app.post("/api/assets/upload", upload.array('files'), async (req, res) => {
+    const files = (req.files ?? []) as Express.Multer.File[];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
+    await createUploadedAssets(req, res, files, req.body);
+  });
+
+  // Start a resumable upload. The file is then sent in chunks and completed
+  // into an asset through the same path as /api/assets/upload.
+  app.post("/api/uploads", async (req, res) => {
+    try {
+      const sessionData = insertUploadSessionSchema.parse(req.body);
+      if (!canUpload(req.user!, sessionData.fields.region)) {
+        return res.status(403).json({ message: `You cannot upload assets to the ${sessionData.fields.region} region` });
+      }
+      if (sessionData.size > MAX_RESUMABLE_UPLOAD_BYTES) {
+        return res.status(413).json({ message: "File is too large" });
+      }
+
+      const session = await storage.createUploadSession({ ...sessionData, userId: req.user!.id });
+      await createSessionFile(session);
+
+      res.setHeader("Location", `/api/uploads/${session.id}`);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      console.error("Error creating upload session:", error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  // Upload sessions are private to the user who started them
+  const getOwnUploadSession = async (req: Request, res: Response) => {
+    const session = await storage.getUploadSession(req.params.id);
+    if (!session || session.userId !== req.user!.id) {
+      res.status(404).json({ message: "Upload not found" });
+      return undefined;
+    }
+    return session;
+  };
+
+  // Current offset of an upload, to resume from (also answers HEAD)
+  app.get("/api/uploads/:id", async (req, res) => {
+    try {
+      const session = await getOwnUploadSession(req, res);
+      if (!session) return;
+
+      res.setHeader("Upload-Offset", session.offset);
+      res.setHeader("Upload-Length", session.size);
+      res.setHeader("Cache-Control", "no-store");
+      res.json(session);
+    } catch (error) {
+      console.error("Error fetching upload session:", error);
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  // Append a chunk. The body is the raw bytes; Upload-Offset must match the
+  // bytes the server already has.
+  app.patch("/api/uploads/:id", async (req, res) => {
+    try {
+      const session = await getOwnUploadSession(req, res);
+      if (!session) return;
+
+      if (req.get("Content-Type") !== "application/offset+octet-stream") {
+        return res.status(415).json({ message: "Chunks must be sent as application/offset+octet-stream" });
+      }
+      const offset = parseInt(req.get("Upload-Offset") ?? "", 10);
+      if (isNaN(offset)) {
+        return res.status(400).json({ message: "Upload-Offset header is required" });
+      }
+      const length = parseInt(req.get("Content-Length") ?? "0", 10);
+      if (offset + length > session.size) {
+        return res.status(400).json({ message: "Chunk goes past the declared upload size" });
+      }
+
+      const newOffset = await appendChunk(session, offset, req);
+      res.setHeader("Upload-Offset", newOffset);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof UploadOffsetError) {
+        res.setHeader("Upload-Offset", error.expectedOffset);
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof UploadBusyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error receiving upload chunk:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to receive chunk" });
+      }
+    }
+  });
+
+  // Turn a fully received upload into an asset. On a duplicate conflict the
+  // session is kept so it can be completed again with a duplicateAction.
+  app.post("/api/uploads/:id/complete", async (req, res) => {
+    try {
+      await withSessionLock([req.params.id], async () => {
+        const session = await getOwnUploadSession(req, res);
+        if (!session) return;
+
+        if (session.offset < session.size) {
+          return res.status(409).json({ message: `Upload is incomplete (${session.offset} of ${session.size} bytes)` });
+        }
+
+        const consumed = await createUploadedAssets(req, res, [getSessionFile(session)], {
+          ...session.fields,
+          duplicateAction: req.body.duplicateAction
+        }, true);
+
+        if (consumed) {
+          await storage.deleteUploadSession(session.id);
+        } else {
+          await deleteConsumedSessions([session]);
+        }
+      });
+    } catch (error) {
+      if (error instanceof UploadBusyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error completing upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Complete several fully received uploads, in slide order, as one
+  // Carousel asset
+  app.post("/api/uploads/carousel", async (req, res) => {
+    try {
+      const { sessionIds } = carouselUploadSchema.parse(req.body);
+      if (new Set(sessionIds).size !== sessionIds.length) {
+        return res.status(400).json({ message: "Each upload can only be one slide" });
+      }
+
+      await withSessionLock(sessionIds, async () => {
+        const sessions: UploadSession[] = [];
+        for (const id of sessionIds) {
+          const session = await storage.getUploadSession(id);
+          if (!session || session.userId !== req.user!.id) {
+            return res.status(404).json({ message: "Upload not found" });
+          }
+          if (session.offset < session.size) {
+            return res.status(409).json({ message: `Upload of ${session.filename} is incomplete` });
+          }
+          if (session.fields.assetType !== "Carousel") {
+            return res.status(400).json({ message: `${session.filename} was not uploaded as a Carousel slide` });
+          }
+          sessions.push(session);
+        }
+
+        const consumed = await createUploadedAssets(req, res, sessions.map(getSessionFile), sessions[0].fields, true);
+        if (consumed) {
+          for (const session of sessions) {
+            await storage.deleteUploadSession(session.id);
+          }
+        } else {
+          await deleteConsumedSessions(sessions);
+        }
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      if (error instanceof UploadBusyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error completing carousel upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
+    }
+  });
+
+  // Cancel an upload and discard what was received
+  app.delete("/api/uploads/:id", async (req, res) => {
+    try {
+      await withSessionLock([req.params.id], async () => {
+        const session = await getOwnUploadSession(req, res);
+        if (!session) return;
+
+        await deleteSession(session);
+        res.status(204).end();
+      });
+    } catch (error) {
+      if (error instanceof UploadBusyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling upload:", error);
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Upload a new revision of an existing asset's file
+  app.post("/api/assets/:id/versions", upload.single('file'), async (req, res) => {
+    const file = req.file;
+    try {
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        fs.unlink(file.path, () => {});
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      if (!canEditAsset(req.user!, asset)) {
+        fs.unlink(file.path, () => {});
+        return res.status(403).json({ message: "You cannot edit assets in this region" });
+      }
+
+      const contentHash = await hashFile(file.path);
+      if (contentHash === asset.contentHash) {
+        fs.unlink(file.path, () => {});
+        return res.status(409).json({ message: "This file is identical to the current version" });
+      }
+
+      const updatedAsset = await addUploadedRevision(asset, file, {
+        uploadedBy: req.user!.id,
+        note: req.body.note || null,
+        contentHash
+      });
+
+      res.json(updatedAsset);
+    } catch (error) {
+      console.error("Error uploading asset version:", error);
+      res.status(500).json({ message: "Failed to upload new version" });
+    }
+  });
+
+  // Make an older revision current again. The restore is recorded as a new
+  // revision pointing at the old file, so no history is destroyed.
+  app.post("/api/assets/:id/versions/:versionId/restore", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      if (!canEditAsset(req.user!, asset)) {
+        return res.status(403).json({ message: "You cannot edit assets in this region" });
+      }
+
+      const previous = await storage.getAssetVersion(req.params.versionId);
+      if (!previous || previous.assetId !== asset.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const namingKey = getNamingKey(asset);
+      const updatedAsset = await withNextVersion(namingKey, asset.version, version =>
+        storage.addAssetRevision(asset, {
+          assetId: asset.id,
+          version,
+          filename: `${formatAssetName(namingKey, version)}${path.extname(previous.filename)}`,
+          storageProvider: previous.storageProvider,
+          googleDriveFileId: previous.googleDriveFileId,
+          driveLink: previous.driveLink,
+          thumbnailUrl: previous.thumbnailUrl,
+          fileSize: previous.fileSize,
+          mimeType: previous.mimeType,
+          contentHash: previous.contentHash,
+          width: previous.width,
+          height: previous.height,
+          duration: previous.duration,
+          videoCodec: previous.videoCodec,
+          colorSpace: previous.colorSpace,
+          dpi: previous.dpi,
+          creator: previous.creator,
+          copyright: previous.copyright,
+          keywords: previous.keywords,
+          uploadedBy: req.user!.id,
+          note: `Restored from V${previous.version}`
+        })
+      );
+      queueRenditions(updatedAsset);
+
+      await storage.createAuditEntry({
+        userId: req.user!.id,
+        action: "version.restore",
+        assetId: asset.id,
+        details: {
+          restoredVersionId: previous.id,
+          restoredVersion: previous.version,
+          replacedVersion: asset.version,
+          newVersion: updatedAsset.version
+        }
+      });
+
+      res.json(updatedAsset);
+    } catch (error) {
+      console.error("Error restoring asset version:", error);
+      res.status(500).json({ message: "Failed to restore version" });
     }
   });
 
@@ -281,31 +1095,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         id: req.params.id
       });
+
+      const existing = await storage.getAsset(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+      if (!canEditAsset(req.user!, existing)) {
+        return res.status(403).json({ message: "You cannot edit assets in this region" });
+      }
       
       const asset = await storage.updateAsset(updateData);
       res.json(asset);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
       console.error("Error updating asset:", error);
       res.status(500).json({ message: "Failed to update asset" });
     }
   });
 
-  // Delete asset
+  // Move asset to the trash. Files are kept until the trash is purged.
   app.delete("/api/assets/:id", async (req, res) => {
     try {
       const asset = await storage.getAsset(req.params.id);
-      if (!asset) {
+      if (!asset || asset.deletedAt) {
         return res.status(404).json({ message: "Asset not found" });
       }
+      if (!canDeleteAsset(req.user!, asset)) {
+        return res.status(403).json({ message: "You cannot delete assets in this region" });
+      }
 
-      // Delete from Google Drive
-      await drive.files.delete({ fileId: asset.googleDriveFileId });
-      
-      // Delete from database
-      await storage.deleteAsset(req.params.id);
-      
-      res.json({ message: "Asset deleted successfully" });
+      await storage.trashAsset(asset.id);
+      await storage.createAuditEntry({
+        userId: req.user!.id,
+        action: "asset.trash",
+        assetId: asset.id,
+        details: { filename: asset.filename }
+      });
+
+      res.json({ message: "Asset moved to trash" });
+    } catch (error) {
+      console.error("Error deleting asset:", error);
+      res.status(500).json({ message: "Failed to delete asset" });
+    }
+  });
+
+  // Restore asset from the trash
+  app.post("/api/assets/:id/restore", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || !asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found in trash" });
+      }
+      if (!canDeleteAsset(req.user!, asset)) {
+        return res.status(403).json({ message: "You cannot restore assets in this region" });
+      }
+
+      const restored = await storage.restoreAsset(asset.id);
+      await storage.createAuditEntry({
+        userId: req.user!.id,
+        action: "asset.restore",
+        assetId: asset.id,
+        details: { filename: asset.filename, deletedAt: asset.deletedAt }
+      });
+
+      res.json(restored);
     } catch (error) {
+      console.error("Error restoring asset:", error);
+      res.status(500).json({ message: "Failed to restore asset" });
+    }
+  });
+
+  // Permanently delete a trashed asset and its files
+  app.delete("/api/assets/:id/permanent", async (req, res) => {
+    try {
+      const asset = await storage.getAsset(req.params.id);
+      if (!asset || !asset.deletedAt) {
+        return res.status(404).json({ message: "Asset not found in trash" });
+      }
+      if (!canDeleteAsset(req.user!, asset)) {
+        return res.status(403).json({ message: "You cannot delete assets in this region" });
+      }
+
+      await purgeAsset(asset.id);
+      await storage.createAuditEntry({
+        userId: req.user!.id,
+        action: "asset.purge",
+        assetId: asset.id,
+        details: { filename: asset.filename, deletedAt: asset.deletedAt }
+      });
+
+      res.json({ message: "Asset deleted permanently" });
+    } catch (error) {
+      if (error instanceof FileStorageError) {
+        console.error("Error deleting asset files:", error);
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error deleting asset:", error);
       res.status(500).json({ message: "Failed to delete asset" });
     }
@@ -392,42 +1278,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // List users (admin only)
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
 
-// Helper function to create folder structure in Google Drive
-async function createDriveFolder(folderPath: string): Promise<string> {
-  const folders = folderPath.split('/');
-  let parentId = 'root';
+  // Create user (admin only)
+  app.post("/api/users", async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
 
-  for (const folderName of folders) {
-    if (!folderName) continue;
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password)
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
 
-    // Check if folder exists
-    const response = await drive.files.list({
-      q: `name='${folderName}' and '${parentId}' in parents and mimeType='application/vnd.google-apps.folder'`,
-      fields: 'files(id, name)'
-    });
+  // Update a user's role, region scope or password (admin only)
+  app.patch("/api/users/:id", async (req, res) => {
+    try {
+      const userData = updateUserSchema.parse(req.body);
+      if (Object.keys(userData).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+      if (userData.password !== undefined) {
+        userData.password = await hashPassword(userData.password);
+      }
 
-    if (response.data.files && response.data.files.length > 0) {
-      parentId = response.data.files[0].id!;
-    } else {
-      // Create folder
-      const folderMetadata = {
-        name: folderName,
-        mimeType: 'application/vnd.google-apps.folder',
-        parents: [parentId]
-      };
+      const user = await storage.updateUser(req.params.id, userData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Last storage reconciliation report (admin only); null until the job has run
+  app.get("/api/admin/reconciliation", async (req, res) => {
+    res.json(getLastReconciliationReport());
+  });
+
+  // Compare database records with storage contents now (admin only)
+  app.post("/api/admin/reconciliation", async (req, res) => {
+    try {
+      const report = await runReconciliation();
+      res.json(report);
+    } catch (error) {
+      console.error("Error running reconciliation:", error);
+      res.status(500).json({ message: "Failed to run reconciliation" });
+    }
+  });
 
-      const folder = await drive.files.create({
-        requestBody: folderMetadata,
-        fields: 'id'
+  // Apply a fix to one reported issue (admin only)
+  app.post("/api/admin/reconciliation/fix", async (req, res) => {
+    try {
+      const fixRequest = reconciliationFixSchema.parse(req.body);
+      const issue = await applyReconciliationFix(fixRequest);
+
+      await storage.createAuditEntry({
+        userId: req.user!.id,
+        action: `reconciliation.${fixRequest.fix}`,
+        assetId: issue.records[0]?.assetId ?? null,
+        details: {
+          issueType: issue.type,
+          provider: issue.provider,
+          key: issue.key,
+          targetKey: fixRequest.targetKey
+        }
       });
 
-      parentId = folder.data.id!;
+      res.json(getLastReconciliationReport());
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      if (error instanceof ReconciliationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error applying reconciliation fix:", error);
+      res.status(500).json({ message: "Failed to apply fix" });
     }
-  }
+  });
 
-  return parentId;
+  // Groups of live assets with identical file content, and of ones that
+  // look alike (admin only)
+  app.get("/api/admin/duplicates", async (req, res) => {
+    try {
+      const groups = await storage.getDuplicateGroups();
+      const nearGroups = await getNearDuplicateGroups();
+      const unhashed = (await storage.getAssetsWithoutContentHash()).length;
+      res.json({ groups, nearGroups, unhashed });
+    } catch (error) {
+      console.error("Error fetching duplicates:", error);
+      res.status(500).json({ message: "Failed to fetch duplicates" });
+    }
+  });
+
+  // Hash the files of assets uploaded before content hashing (admin only)
+  app.post("/api/admin/duplicates/backfill", async (req, res) => {
+    try {
+      const result = await backfillContentHashes();
+      res.json(result);
+    } catch (error) {
+      console.error("Error hashing existing assets:", error);
+      res.status(500).json({ message: "Failed to hash existing assets" });
+    }
+  });
+
+  // Import an existing folder tree (admin only). Dry runs by default.
+  app.post("/api/admin/import", async (req, res) => {
+    try {
+      const { source, dryRun } = importRequestSchema.parse(req.body);
+
+      // Server directories are only reachable below IMPORT_ROOT
+      if (source.type === "directory") {
+        const importRoot = process.env.IMPORT_ROOT && path.resolve(process.env.IMPORT_ROOT);
+        const directory = path.resolve(source.path);
+        if (!importRoot || (directory !== importRoot && !directory.startsWith(importRoot + path.sep))) {
+          return res.status(400).json({ message: "Directory imports must be inside IMPORT_ROOT" });
+        }
+      }
+
+      const report = await importAssets(source, { dryRun, uploadedBy: req.user!.id });
+      if (!dryRun) {
+        await storage.createAuditEntry({
+          userId: req.user!.id,
+          action: "asset.import",
+          assetId: null,
+          details: {
+            source,
+            imported: report.imported.length,
+            skipped: report.skipped.length,
+            unparseable: report.unparseable.length,
+            failed: report.failed.length
+          }
+        });
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      console.error("Error importing assets:", error);
+      res.status(500).json({ message: "Failed to import assets" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
@@ -0,0 +1,73 @@
+import sharp from "sharp";
+import type { Asset, NearDuplicateGroup } from "@shared/schema";
+import { storage } from "./storage";
+
+// Visual similarity uses a difference hash (dHash): the image is shrunk to
+// 9x8 greyscale and each bit records whether a pixel is brighter than its
+// right-hand neighbour. Resizing, recompression and small colour changes
+// flip few of the 64 bits, so the number of differing bits (the Hamming
+// distance) measures how alike two images look.
+
+// Distances up to this count as "similar" in search results
+export const SIMILAR_MAX_DISTANCE = 12;
+
+// Distances up to this count as the same picture, re-exported
+export const NEAR_DUPLICATE_MAX_DISTANCE = 4;
+
+// Most look-alike pairs the duplicates report groups, closest first
+const NEAR_DUPLICATE_MAX_PAIRS = 1000;
+
+export async function computePerceptualHash(imagePath: string): Promise<string> {
+  const pixels = await sharp(imagePath)
+    .rotate() // apply EXIF orientation
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const bit = pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1 : 0;
+      hash = (hash << BigInt(1)) | BigInt(bit);
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+// Groups the pairs of look-alike assets into clusters, so three exports of
+// one picture show as one group rather than three pairs
+export async function getNearDuplicateGroups(): Promise<NearDuplicateGroup[]> {
+  const pairs = await storage.getNearDuplicatePairs(NEAR_DUPLICATE_MAX_DISTANCE, NEAR_DUPLICATE_MAX_PAIRS);
+
+  const parents = new Map<string, string>();
+  const find = (id: string): string => {
+    const parent = parents.get(id) ?? id;
+    if (parent === id) return id;
+    const root = find(parent);
+    parents.set(id, root);
+    return root;
+  };
+
+  const byId = new Map<string, Asset>();
+  for (const { first, second } of pairs) {
+    byId.set(first.id, first);
+    byId.set(second.id, second);
+    parents.set(find(first.id), find(second.id));
+  }
+
+  const groups = new Map<string, NearDuplicateGroup>();
+  for (const { first, distance } of pairs) {
+    const group = groups.get(find(first.id)) ?? { assets: [], maxDistance: 0 };
+    group.maxDistance = Math.max(group.maxDistance, distance);
+    groups.set(find(first.id), group);
+  }
+  for (const asset of Array.from(byId.values())) {
+    groups.get(find(asset.id))!.assets.push(asset);
+  }
+
+  return Array.from(groups.values()).map(group => ({
+    ...group,
+    assets: group.assets.sort((a, b) => new Date(a.uploadDate).getTime() - new Date(b.uploadDate).getTime())
+  }));
+}
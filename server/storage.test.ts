@@ -0,0 +1,105 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { db } from "./db";
+import { storage, CursorError } from "./storage";
+
+// Listing queries run against an in-memory Postgres, with the schema
+// generated from shared/schema.ts. drizzle-kit's ESM build can't load under
+// tsx, so its CommonJS one is required.
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+let client: PGlite;
+let testDb: ReturnType<typeof drizzle<typeof schema>>;
+
+// Five assets, two uploaded at the same moment so the id breaks the tie
+const UPLOADS = [
+  { id: "a", filename: "2025_03_North_Brand_Static_V1.jpg", fileSize: 300, uploadDate: new Date("2025-03-01T10:00:00Z") },
+  { id: "b", filename: "2025_03_North_Brand_Static_V2.jpg", fileSize: 100, uploadDate: new Date("2025-03-02T10:00:00Z") },
+  { id: "c", filename: "2025_03_North_Brand_Static_V3.jpg", fileSize: 100, uploadDate: new Date("2025-03-02T10:00:00Z") },
+  { id: "d", filename: "2025_03_North_Brand_Static_V4.jpg", fileSize: 500, uploadDate: new Date("2025-03-03T10:00:00Z") },
+  { id: "e", filename: "2025_03_North_Brand_Static_V5.jpg", fileSize: 200, uploadDate: new Date("2025-03-04T10:00:00Z") },
+];
+
+before(async () => {
+  client = new PGlite();
+  testDb = drizzle(client, { schema });
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  // Listings only read, so routing selects is enough
+  mock.method(db, "select", testDb.select.bind(testDb));
+
+  await testDb.insert(schema.assets).values(UPLOADS.map(assetRow));
+});
+
+function assetRow(upload: typeof UPLOADS[number], index: number): schema.InsertAsset & { id: string; uploadDate: Date } {
+  return {
+    ...upload,
+    originalName: upload.filename,
+    category: "Brand",
+    assetType: "Static",
+    region: "North",
+    state: "NSW",
+    year: 2025,
+    month: 3,
+    version: index + 1,
+    mimeType: "image/jpeg",
+    storageProvider: "local" as const,
+    googleDriveFileId: `Assets/${upload.filename}`,
+    googleDriveFolderId: "Assets",
+    driveLink: `/uploads/Assets/${upload.filename}`,
+    versionsLink: "/uploads/Assets/",
+  };
+}
+
+after(async () => {
+  mock.restoreAll();
+  await client.close();
+});
+
+async function readAllPages(sort: schema.AssetSort, limit: number): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await storage.getAssetPage({ sort, limit, cursor });
+    pages.push(page.assets.map(asset => asset.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+test("cursor pages list every asset once, newest first", async () => {
+  assert.deepEqual(await readAllPages("date", 2), [["e", "d"], ["b", "c"], ["a"]]);
+});
+
+test("cursor pages keep ties in id order when sorting by size", async () => {
+  assert.deepEqual(await readAllPages("size", 2), [["d", "a"], ["e", "b"], ["c"]]);
+});
+
+test("a cursor keeps its place when a newer asset is uploaded", async () => {
+  const first = await storage.getAssetPage({ sort: "date", limit: 2 });
+  await testDb.insert(schema.assets).values(assetRow(
+    { id: "f", filename: "2025_03_North_Brand_Static_V6.jpg", fileSize: 100, uploadDate: new Date("2025-03-05T10:00:00Z") },
+    5,
+  ));
+
+  const second = await storage.getAssetPage({ sort: "date", limit: 2, cursor: first.nextCursor! });
+
+  assert.deepEqual(second.assets.map(asset => asset.id), ["b", "c"]);
+});
+
+test("a cursor from another sort order is refused", async () => {
+  const { nextCursor } = await storage.getAssetPage({ sort: "date", limit: 2 });
+
+  await assert.rejects(
+    storage.getAssetPage({ sort: "name", limit: 2, cursor: nextCursor! }),
+    (error: Error) => error instanceof CursorError && error.status === 400
+  );
+  await assert.rejects(storage.getAssetPage({ limit: 2, cursor: "not a cursor" }), CursorError);
+});
@@ -1,37 +1,339 @@
-import { assets, users, type User, type InsertUser, type Asset, type InsertAsset, type UpdateAsset } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, like, gte, lte, inArray, sql } from "drizzle-orm";
+import {
+  assets,
+  assetVersions,
+  assetDownloads,
+  assetRenditions,
+  assetSlides,
+  auditLogs,
+  uploadSessions,
+  users,
+  type User,
+  type InsertUser,
+  type UpdateUser,
+  type Asset,
+  type AssetListItem,
+  type InsertAsset,
+  type UpdateAsset,
+  type AssetVersion,
+  type InsertAssetVersion,
+  type AssetVersionWithUploader,
+  type AuditLog,
+  type InsertAuditLog,
+  type AssetDownload,
+  type AssetRendition,
+  type InsertAssetRendition,
+  type RenditionSize,
+  type InsertAssetDownload,
+  type AssetSlide,
+  type InsertAssetSlide,
+  type StorageProviderName,
+  type DuplicateGroup,
+  type SimilarAsset,
+  type UploadSession,
+  type InsertUploadSession,
+  type Orientation,
+  type AssetSort,
+  assetSearchDocument,
+} from "@shared/schema";
+import { db, pool } from "./db";
+import { eq, and, or, asc, desc, gt, gte, lt, lte, ne, inArray, isNull, isNotNull, max, sql, getTableColumns, type SQL, type SQLWrapper } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { AssetNamingKey } from "./naming";
+import { hexToLab, COLOR_MATCH_DISTANCE } from "./palette";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+// Number of differing bits between two perceptual hashes (16 hex digits each)
+function hashDistance(a: SQLWrapper | string, b: SQLWrapper | string) {
+  return sql<number>`length(replace(((('x' || ${a})::bit(64)) # (('x' || ${b})::bit(64)))::text, '0', ''))`.mapWith(Number);
+}
+
+// Splits the 16 hex digits of a perceptual hash into count bands of whole
+// digits, as [start, length] for substr
+function hashBands(count: number): [number, number][] {
+  if (count > 16) {
+    throw new Error(`Perceptual hashes can't be split into ${count} bands`);
+  }
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.floor(index * 16 / count);
+    return [start + 1, Math.floor((index + 1) * 16 / count) - start];
+  });
+}
+
+// Matches documents with every word of the search as a prefix, so "goa mons"
+// finds "Goa Monsoon". Words are split as in assetSearchDocument.
+function searchQuery(search: string) {
+  return sql`to_tsquery('simple', (
+    select string_agg(quote_literal(lexeme) || ':*', ' & ')
+    from unnest(to_tsvector('simple', regexp_replace(${search}, '[._-]+', ' ', 'g')))
+  ))`;
+}
+
+// Set on an asset along with its preview renditions
+export type VisualDetails = Pick<Asset, "thumbnailUrl" | "perceptualHash" | "palette">;
+
+// A pair of live assets that look alike, for near-duplicate grouping
+export interface NearDuplicatePair {
+  first: Asset;
+  second: Asset;
+  distance: number;
+}
+
+export interface AssetFilters {
+  ids?: string[];
+  category?: string;
+  assetType?: string;
+  region?: string;
+  state?: string;
+  resort?: string;
+  startDate?: Date;
+  endDate?: Date;
+  tags?: string[];
+  search?: string;
+  orientation?: Orientation;
+  width?: number; // exact pixel dimensions
+  height?: number;
+  color?: string; // hex; matches assets with a dominant colour close to it
+  sort?: AssetSort; // defaults to relevance when searching, else date
+  favorites?: boolean;
+  trashed?: boolean; // list the trash instead of live assets
+  limit?: number;
+  offset?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface AssetPage {
+  assets: AssetListItem[];
+  nextCursor: string | null;
+}
+
+// A pagination cursor that is malformed or was made for another sort order
+export class CursorError extends Error {
+  status = 400;
+
+  constructor(message = "Invalid page cursor") {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+function getSearchQuery(filters: AssetFilters) {
+  return filters.search?.trim() ? searchQuery(filters.search) : null;
+}
+
+// The WHERE conditions shared by a listing and its count
+function getAssetConditions(filters: AssetFilters): SQL[] {
+  const search = getSearchQuery(filters);
+  const conditions = [
+    filters.trashed ? isNotNull(assets.deletedAt) : isNull(assets.deletedAt)
+  ];
+
+  if (filters.ids) {
+    conditions.push(inArray(assets.id, filters.ids));
+  }
+  if (filters.category) {
+    conditions.push(eq(assets.category, filters.category));
+  }
+  if (filters.assetType) {
+    conditions.push(eq(assets.assetType, filters.assetType));
+  }
+  if (filters.region) {
+    conditions.push(eq(assets.region, filters.region));
+  }
+  if (filters.state) {
+    conditions.push(eq(assets.state, filters.state));
+  }
+  if (filters.resort) {
+    conditions.push(eq(assets.resort, filters.resort));
+  }
+  if (filters.startDate) {
+    conditions.push(gte(assets.uploadDate, filters.startDate));
+  }
+  if (filters.endDate) {
+    conditions.push(lte(assets.uploadDate, filters.endDate));
+  }
+  if (search) {
+    conditions.push(sql`${assetSearchDocument(assets)} @@ ${search}`);
+  }
+  if (filters.favorites) {
+    conditions.push(eq(assets.isFavorite, true));
+  }
+  if (filters.orientation === "portrait") {
+    conditions.push(gt(assets.height, assets.width));
+  } else if (filters.orientation === "landscape") {
+    conditions.push(gt(assets.width, assets.height));
+  } else if (filters.orientation === "square") {
+    conditions.push(eq(assets.width, assets.height));
+  }
+  if (filters.width) {
+    conditions.push(eq(assets.width, filters.width));
+  }
+  if (filters.height) {
+    conditions.push(eq(assets.height, filters.height));
+  }
+  const color = filters.color ? hexToLab(filters.color) : null;
+  if (color) {
+    conditions.push(sql`exists (
+      select 1 from jsonb_array_elements(${assets.palette}) as swatch
+      where sqrt(
+        power((swatch->>'l')::float - ${color.l}, 2) +
+        power((swatch->>'a')::float - ${color.a}, 2) +
+        power((swatch->>'b')::float - ${color.b}, 2)
+      ) <= ${COLOR_MATCH_DISTANCE}
+    )`);
+  }
+  return conditions;
+}
+
+interface SortKey {
+  value: SQLWrapper;
+  descending: boolean;
+}
+
+// What a listing is ordered by, most significant first. The id comes last
+// so every asset has a distinct position for cursors to point at.
+function getSortKeys(sort: AssetSort, filters: AssetFilters, search: SQL | null): SortKey[] {
+  // The trash lists by when assets were deleted
+  const date = filters.trashed ? assets.deletedAt : assets.uploadDate;
+  const keys: SortKey[] =
+    sort === "name" ? [{ value: assets.filename, descending: false }] :
+    sort === "size" ? [{ value: assets.fileSize, descending: true }] :
+    sort === "type" ? [{ value: assets.assetType, descending: false }, { value: date, descending: true }] :
+    sort === "relevance" && search ? [
+      { value: sql`ts_rank(${assetSearchDocument(assets)}, ${search})`, descending: true },
+      { value: date, descending: true }
+    ] :
+    [{ value: date, descending: true }];
+  return [...keys, { value: assets.id, descending: false }];
+}
+
+function encodeCursor(sort: AssetSort, position: unknown[]): string {
+  return Buffer.from(JSON.stringify({ sort, position })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: AssetSort, keyCount: number): unknown[] {
+  let decoded: { sort?: unknown; position?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new CursorError();
+  }
+  if (decoded.sort !== sort) {
+    throw new CursorError("The page cursor belongs to a different sort order");
+  }
+  if (!Array.isArray(decoded.position) || decoded.position.length !== keyCount) {
+    throw new CursorError();
+  }
+  return decoded.position;
+}
+
+// Rows after the cursor's position: a later value of the first key, or the
+// same value and a later one of the next key, and so on
+function afterCursor(keys: SortKey[], position: unknown[]): SQL {
+  const branches = keys.map((key, index) => and(
+    ...keys.slice(0, index).map((earlier, earlierIndex) => sql`${earlier.value} = ${position[earlierIndex]}`),
+    key.descending ? sql`${key.value} < ${position[index]}` : sql`${key.value} > ${position[index]}`
+  )!);
+  return or(...branches)!;
+}
+
+// A file reference held by an assets row (versionId and slideId null, the
+// current file), an asset_versions row or an asset_slides row, with the
+// asset fields that place it in storage
+export interface FileRecord {
+  assetId: string;
+  versionId: string | null;
+  slideId: string | null;
+  filename: string;
+  storageProvider: StorageProviderName;
+  googleDriveFileId: string;
+  driveLink: string;
+  fileSize: number;
+  missingAt: Date | null;
+  asset: Pick<Asset, "category" | "region" | "state" | "resort" | "year" | "month" | "assetType">;
+}
+
+export interface FileRecordChanges {
+  storageProvider?: StorageProviderName;
+  googleDriveFileId?: string;
+  driveLink?: string;
+  fileSize?: number;
+  missingAt?: Date | null;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, user: UpdateUser): Promise<User | undefined>;
   
   // Asset methods
-  getAssets(filters?: {
-    category?: string;
-    assetType?: string;
-    region?: string;
-    state?: string;
-    resort?: string;
-    startDate?: Date;
-    endDate?: Date;
-    tags?: string[];
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Asset[]>;
+  getAssets(filters?: AssetFilters): Promise<AssetListItem[]>;
+  getAssetPage(filters?: AssetFilters): Promise<AssetPage>;
   getAsset(id: string): Promise<Asset | undefined>;
-  createAsset(asset: InsertAsset): Promise<Asset>;
+  createAsset(asset: InsertAsset, uploadedBy?: string, slides?: Omit<InsertAssetSlide, "assetId">[]): Promise<Asset>;
   updateAsset(asset: UpdateAsset): Promise<Asset>;
   deleteAsset(id: string): Promise<void>;
-  getAssetCount(): Promise<number>;
+  trashAsset(id: string): Promise<Asset>;
+  restoreAsset(id: string): Promise<Asset>;
+  getTrashedBefore(date: Date): Promise<Asset[]>;
+  getAssetCount(filters?: AssetFilters): Promise<number>;
+  getLatestVersion(key: AssetNamingKey): Promise<number>;
   getRecentAssets(limit?: number): Promise<Asset[]>;
   getFavoriteAssets(): Promise<Asset[]>;
   toggleFavorite(id: string): Promise<Asset>;
+
+  // Version history
+  getAssetVersions(assetId: string): Promise<AssetVersionWithUploader[]>;
+  getAssetVersion(id: string): Promise<AssetVersion | undefined>;
+  createAssetVersion(version: InsertAssetVersion): Promise<AssetVersion>;
+  addAssetRevision(asset: Asset, revision: InsertAssetVersion): Promise<Asset>;
+
+  // Preview renditions
+  getRenditions(assetId: string): Promise<AssetRendition[]>;
+  getRendition(assetId: string, size: RenditionSize): Promise<AssetRendition | undefined>;
+  replaceRenditions(assetId: string, renditions: InsertAssetRendition[], visual: VisualDetails): Promise<AssetRendition[]>;
+  getAssetsWithoutRenditions(): Promise<Asset[]>;
+
+  // Visual similarity
+  getSimilarAssets(asset: Asset, maxDistance: number, limit: number): Promise<SimilarAsset[]>;
+  getNearDuplicatePairs(maxDistance: number, limit: number): Promise<NearDuplicatePair[]>;
+
+  // Carousel slides
+  getSlides(assetId: string): Promise<AssetSlide[]>;
+  reorderSlides(assetId: string, slideIds: string[]): Promise<AssetSlide[]>;
+
+  // Audit trail
+  createAuditEntry(entry: InsertAuditLog): Promise<AuditLog>;
+  recordDownload(download: InsertAssetDownload): Promise<AssetDownload>;
+  getAssetsByContentHash(contentHash: string): Promise<Asset[]>;
+  getAssetsWithoutContentHash(): Promise<Asset[]>;
+  setContentHash(asset: Asset, contentHash: string): Promise<void>;
+  getDuplicateGroups(): Promise<DuplicateGroup[]>;
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  updateUploadSessionOffset(id: string, offset: number): Promise<UploadSession>;
+  deleteUploadSession(id: string): Promise<void>;
+  getUploadSessionsUpdatedBefore(date: Date): Promise<UploadSession[]>;
+  getFileRecords(): Promise<FileRecord[]>;
+  updateFileRecords(records: Pick<FileRecord, "assetId" | "versionId" | "slideId">[], changes: FileRecordChanges): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -50,61 +352,68 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getAssets(filters?: {
-    category?: string;
-    assetType?: string;
-    region?: string;
-    state?: string;
-    resort?: string;
-    startDate?: Date;
-    endDate?: Date;
-    tags?: string[];
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<Asset[]> {
-    let query = db.select().from(assets);
-    const conditions = [];
-
-    if (filters?.category) {
-      conditions.push(eq(assets.category, filters.category));
-    }
-    if (filters?.assetType) {
-      conditions.push(eq(assets.assetType, filters.assetType));
-    }
-    if (filters?.region) {
-      conditions.push(eq(assets.region, filters.region));
-    }
-    if (filters?.state) {
-      conditions.push(eq(assets.state, filters.state));
-    }
-    if (filters?.resort) {
-      conditions.push(eq(assets.resort, filters.resort));
-    }
-    if (filters?.startDate) {
-      conditions.push(gte(assets.uploadDate, filters.startDate));
-    }
-    if (filters?.endDate) {
-      conditions.push(lte(assets.uploadDate, filters.endDate));
-    }
-    if (filters?.search) {
-      conditions.push(like(assets.filename, `%${filters.search}%`));
-    }
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: string, updateUser: UpdateUser): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(updateUser)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getAssets(filters?: AssetFilters): Promise<AssetListItem[]> {
+    return (await this.getAssetPage(filters)).assets;
+  }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+  // One page of a listing in the requested order; search results come with
+  // a snippet of the metadata that matched. Pages follow a cursor (or an
+  // offset), and the returned nextCursor is null on the last page.
+  async getAssetPage(filters: AssetFilters = {}): Promise<AssetPage> {
+    const search = getSearchQuery(filters);
+    const sort = filters.sort ?? (search ? "relevance" : "date");
+    const keys = getSortKeys(sort, filters, search);
+    const conditions = getAssetConditions(filters);
+    if (filters.cursor) {
+      conditions.push(afterCursor(keys, decodeCursor(filters.cursor, sort, keys.length)));
     }
 
-    query = query.orderBy(desc(assets.uploadDate));
+    const snippet = search
+      ? sql<string | null>`ts_headline('simple',
+          concat_ws(' · ', ${assets.originalName}, ${assets.resort}, ${assets.state}, ${assets.region},
+            (select string_agg(tag, ', ') from jsonb_array_elements_text(coalesce(${assets.tags}, '[]'::jsonb)) as tag)),
+          ${search}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=3, MaxWords=12')`
+      : sql<string | null>`null`;
+    // The sort keys as stored, so the cursor compares exactly (timestamps
+    // keep their microseconds)
+    const position = sql<unknown[]>`json_build_array(${sql.join(keys.map(key => key.value), sql`, `)})`;
 
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
+    let query = db
+      .select({ ...getTableColumns(assets), snippet, position })
+      .from(assets)
+      .where(and(...conditions))
+      .orderBy(...keys.map(key => key.descending ? desc(key.value) : asc(key.value)))
+      .$dynamic();
+
+    // One extra row tells whether there's another page
+    if (filters.limit) {
+      query = query.limit(filters.limit + 1);
     }
-    if (filters?.offset) {
+    if (filters.offset && !filters.cursor) {
       query = query.offset(filters.offset);
     }
 
-    return await query;
+    const rows = await query;
+    const hasMore = !!filters.limit && rows.length > filters.limit;
+    const page = hasMore ? rows.slice(0, filters.limit) : rows;
+
+    return {
+      assets: page.map(({ position, ...asset }) => asset),
+      nextCursor: hasMore ? encodeCursor(sort, page[page.length - 1].position) : null
+    };
   }
 
   async getAsset(id: string): Promise<Asset | undefined> {
@@ -112,12 +421,48 @@ export class DatabaseStorage implements IStorage {
     return asset || undefined;
   }
 
-  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
-    const [asset] = await db
-      .insert(assets)
-      .values(insertAsset)
-      .returning();
-    return asset;
+  // Creates the asset together with its first revision and, for a
+  // carousel, its slides
+  async createAsset(
+    insertAsset: InsertAsset,
+    uploadedBy?: string,
+    slides: Omit<InsertAssetSlide, "assetId">[] = [],
+  ): Promise<Asset> {
+    return await db.transaction(async (tx) => {
+      const [asset] = await tx
+        .insert(assets)
+        .values(insertAsset)
+        .returning();
+
+      await tx.insert(assetVersions).values({
+        assetId: asset.id,
+        version: asset.version,
+        filename: asset.filename,
+        storageProvider: asset.storageProvider,
+        googleDriveFileId: asset.googleDriveFileId,
+        driveLink: asset.driveLink,
+        thumbnailUrl: asset.thumbnailUrl,
+        fileSize: asset.fileSize,
+        mimeType: asset.mimeType,
+        contentHash: asset.contentHash,
+        width: asset.width,
+        height: asset.height,
+        duration: asset.duration,
+        videoCodec: asset.videoCodec,
+        colorSpace: asset.colorSpace,
+        dpi: asset.dpi,
+        creator: asset.creator,
+        copyright: asset.copyright,
+        keywords: asset.keywords,
+        uploadedBy: uploadedBy ?? null,
+      });
+
+      if (slides.length > 0) {
+        await tx.insert(assetSlides).values(slides.map(slide => ({ ...slide, assetId: asset.id })));
+      }
+
+      return asset;
+    });
   }
 
   async updateAsset(updateAsset: UpdateAsset): Promise<Asset> {
@@ -133,15 +478,61 @@ export class DatabaseStorage implements IStorage {
     await db.delete(assets).where(eq(assets.id, id));
   }
 
-  async getAssetCount(): Promise<number> {
-    const [result] = await db.select({ count: sql`count(*)` }).from(assets);
+  // Moves an asset to the trash; its files stay in storage until purged
+  async trashAsset(id: string): Promise<Asset> {
+    const [asset] = await db
+      .update(assets)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(assets.id, id))
+      .returning();
+    return asset;
+  }
+
+  async restoreAsset(id: string): Promise<Asset> {
+    const [asset] = await db
+      .update(assets)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(eq(assets.id, id))
+      .returning();
+    return asset;
+  }
+
+  async getTrashedBefore(date: Date): Promise<Asset[]> {
+    return await db
+      .select()
+      .from(assets)
+      .where(lt(assets.deletedAt, date));
+  }
+
+  // Number of assets matching the filters, whatever page is shown
+  async getAssetCount(filters: AssetFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql`count(*)` })
+      .from(assets)
+      .where(and(...getAssetConditions(filters)));
     return parseInt(result.count as string);
   }
 
+  // Highest version already used for a naming key, or 0 when the key is new
+  async getLatestVersion(key: AssetNamingKey): Promise<number> {
+    const [result] = await db
+      .select({ version: max(assets.version) })
+      .from(assets)
+      .where(and(
+        eq(assets.year, key.year),
+        eq(assets.month, key.month),
+        eq(assets.region, key.region),
+        key.resort ? eq(assets.resort, key.resort) : isNull(assets.resort),
+        eq(assets.assetType, key.assetType)
+      ));
+    return result?.version ?? 0;
+  }
+
   async getRecentAssets(limit = 10): Promise<Asset[]> {
     return await db
       .select()
       .from(assets)
+      .where(isNull(assets.deletedAt))
       .orderBy(desc(assets.uploadDate))
       .limit(limit);
   }
@@ -150,7 +541,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(assets)
-      .where(eq(assets.isFavorite, true))
+      .where(and(eq(assets.isFavorite, true), isNull(assets.deletedAt)))
       .orderBy(desc(assets.uploadDate));
   }
 
@@ -166,6 +557,448 @@ export class DatabaseStorage implements IStorage {
     
     return updatedAsset;
   }
+
+  async getAssetVersions(assetId: string): Promise<AssetVersionWithUploader[]> {
+    const rows = await db
+      .select({ version: assetVersions, uploaderName: users.username })
+      .from(assetVersions)
+      .leftJoin(users, eq(assetVersions.uploadedBy, users.id))
+      .where(eq(assetVersions.assetId, assetId))
+      .orderBy(desc(assetVersions.version), desc(assetVersions.createdAt));
+
+    return rows.map(row => ({ ...row.version, uploaderName: row.uploaderName }));
+  }
+
+  async getAssetVersion(id: string): Promise<AssetVersion | undefined> {
+    const [version] = await db.select().from(assetVersions).where(eq(assetVersions.id, id));
+    return version || undefined;
+  }
+
+  async createAssetVersion(insertVersion: InsertAssetVersion): Promise<AssetVersion> {
+    const [version] = await db
+      .insert(assetVersions)
+      .values(insertVersion)
+      .returning();
+    return version;
+  }
+
+  // Records a new revision and makes it the asset's current file. Assets
+  // created before version tracking get their current file backfilled first
+  // so history is never lost.
+  async addAssetRevision(asset: Asset, revision: InsertAssetVersion): Promise<Asset> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ id: assetVersions.id })
+        .from(assetVersions)
+        .where(eq(assetVersions.assetId, asset.id))
+        .limit(1);
+
+      if (!existing) {
+        await tx.insert(assetVersions).values({
+          assetId: asset.id,
+          version: asset.version,
+          filename: asset.filename,
+          storageProvider: asset.storageProvider,
+          googleDriveFileId: asset.googleDriveFileId,
+          driveLink: asset.driveLink,
+          thumbnailUrl: asset.thumbnailUrl,
+          fileSize: asset.fileSize,
+          mimeType: asset.mimeType,
+          contentHash: asset.contentHash,
+          width: asset.width,
+          height: asset.height,
+          duration: asset.duration,
+          videoCodec: asset.videoCodec,
+          colorSpace: asset.colorSpace,
+          dpi: asset.dpi,
+          creator: asset.creator,
+          copyright: asset.copyright,
+          keywords: asset.keywords,
+          createdAt: asset.uploadDate,
+        });
+      }
+
+      await tx.insert(assetVersions).values(revision);
+
+      // A carousel's cover slide follows the asset's current file
+      await tx
+        .update(assetSlides)
+        .set({
+          filename: revision.filename,
+          storageProvider: revision.storageProvider,
+          googleDriveFileId: revision.googleDriveFileId,
+          driveLink: revision.driveLink,
+          fileSize: revision.fileSize,
+          mimeType: revision.mimeType,
+          contentHash: revision.contentHash ?? null,
+        })
+        .where(and(eq(assetSlides.assetId, asset.id), eq(assetSlides.driveLink, asset.driveLink)));
+
+      const [updatedAsset] = await tx
+        .update(assets)
+        .set({
+          filename: revision.filename,
+          version: revision.version,
+          storageProvider: revision.storageProvider,
+          googleDriveFileId: revision.googleDriveFileId,
+          driveLink: revision.driveLink,
+          thumbnailUrl: revision.thumbnailUrl,
+          fileSize: revision.fileSize,
+          mimeType: revision.mimeType,
+          contentHash: revision.contentHash ?? null,
+          width: revision.width ?? null,
+          height: revision.height ?? null,
+          duration: revision.duration ?? null,
+          videoCodec: revision.videoCodec ?? null,
+          colorSpace: revision.colorSpace ?? null,
+          dpi: revision.dpi ?? null,
+          creator: revision.creator ?? null,
+          copyright: revision.copyright ?? null,
+          keywords: revision.keywords ?? null,
+          // Recomputed with the new renditions
+          perceptualHash: null,
+          palette: null,
+          missingAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(assets.id, asset.id))
+        .returning();
+
+      return updatedAsset;
+    });
+  }
+
+  async getRenditions(assetId: string): Promise<AssetRendition[]> {
+    return await db.select().from(assetRenditions).where(eq(assetRenditions.assetId, assetId));
+  }
+
+  async getRendition(assetId: string, size: RenditionSize): Promise<AssetRendition | undefined> {
+    const [rendition] = await db
+      .select()
+      .from(assetRenditions)
+      .where(and(eq(assetRenditions.assetId, assetId), eq(assetRenditions.size, size)));
+    return rendition || undefined;
+  }
+
+  // Swaps in a freshly generated set of renditions and points the asset's
+  // thumbnail at them, recording what was computed from the same image.
+  // Returns the rows replaced, whose files the caller deletes.
+  async replaceRenditions(assetId: string, renditions: InsertAssetRendition[], visual: VisualDetails): Promise<AssetRendition[]> {
+    return await db.transaction(async (tx) => {
+      const previous = await tx
+        .delete(assetRenditions)
+        .where(eq(assetRenditions.assetId, assetId))
+        .returning();
+      await tx.insert(assetRenditions).values(renditions);
+      await tx.update(assets).set(visual).where(eq(assets.id, assetId));
+      return previous;
+    });
+  }
+
+  // Live assets whose current file has no renditions, perceptual hash or
+  // palette yet
+  async getAssetsWithoutRenditions(): Promise<Asset[]> {
+    return await db
+      .select()
+      .from(assets)
+      .where(and(
+        isNull(assets.deletedAt),
+        sql`(${assets.perceptualHash} is null or ${assets.palette} is null or not exists (
+          select 1 from ${assetRenditions}
+          where ${assetRenditions.assetId} = ${assets.id}
+            and ${assetRenditions.sourceLink} = ${assets.driveLink}
+        ))`
+      ))
+      .orderBy(desc(assets.uploadDate));
+  }
+
+  // Live assets that look like the given one, closest first
+  async getSimilarAssets(asset: Asset, maxDistance: number, limit: number): Promise<SimilarAsset[]> {
+    if (!asset.perceptualHash) return [];
+    const distance = hashDistance(assets.perceptualHash, asset.perceptualHash);
+
+    const rows = await db
+      .select({ asset: assets, distance })
+      .from(assets)
+      .where(and(
+        isNull(assets.deletedAt),
+        isNotNull(assets.perceptualHash),
+        ne(assets.id, asset.id),
+        sql`${distance} <= ${maxDistance}`
+      ))
+      .orderBy(distance, desc(assets.uploadDate))
+      .limit(limit);
+    return rows.map(row => ({ ...row.asset, distance: row.distance }));
+  }
+
+  // Up to limit pairs of live assets within maxDistance of each other,
+  // closest first. Identical files are left out; the exact duplicate report
+  // already covers them.
+  async getNearDuplicatePairs(maxDistance: number, limit: number): Promise<NearDuplicatePair[]> {
+    const other = alias(assets, "other");
+    const distance = hashDistance(assets.perceptualHash, other.perceptualHash);
+
+    // Comparing every pair is quadratic. Split the hash into maxDistance + 1
+    // bands instead: hashes that differ in at most maxDistance bits match
+    // exactly on at least one band, so only pairs sharing a band (found with
+    // an equi-join) need their distance measured.
+    const pairs = new Map<string, NearDuplicatePair>();
+    for (const [start, length] of hashBands(maxDistance + 1)) {
+      const band = (hash: SQLWrapper) => sql`substr(${hash}, ${sql.raw(String(start))}, ${sql.raw(String(length))})`;
+      const rows = await db
+        .select({ first: assets, second: other, distance })
+        .from(assets)
+        .innerJoin(other, and(
+          sql`${band(assets.perceptualHash)} = ${band(other.perceptualHash)}`,
+          sql`${assets.id} < ${other.id}`,
+          isNull(other.deletedAt),
+          sql`${assets.contentHash} is distinct from ${other.contentHash}`
+        ))
+        .where(and(
+          isNull(assets.deletedAt),
+          isNotNull(assets.perceptualHash),
+          sql`${distance} <= ${maxDistance}`
+        ))
+        .orderBy(distance)
+        .limit(limit);
+      for (const row of rows) {
+        pairs.set(`${row.first.id}:${row.second.id}`, row);
+      }
+    }
+
+    return Array.from(pairs.values())
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  async getSlides(assetId: string): Promise<AssetSlide[]> {
+    return await db
+      .select()
+      .from(assetSlides)
+      .where(eq(assetSlides.assetId, assetId))
+      .orderBy(assetSlides.position);
+  }
+
+  // Renumbers the asset's slides in the given order; the caller checks that
+  // slideIds lists each of them once
+  async reorderSlides(assetId: string, slideIds: string[]): Promise<AssetSlide[]> {
+    return await db.transaction(async (tx) => {
+      for (let position = 0; position < slideIds.length; position++) {
+        await tx
+          .update(assetSlides)
+          .set({ position })
+          .where(and(eq(assetSlides.assetId, assetId), eq(assetSlides.id, slideIds[position])));
+      }
+      return await tx
+        .select()
+        .from(assetSlides)
+        .where(eq(assetSlides.assetId, assetId))
+        .orderBy(assetSlides.position);
+    });
+  }
+
+  async createAuditEntry(entry: InsertAuditLog): Promise<AuditLog> {
+    const [auditLog] = await db
+      .insert(auditLogs)
+      .values(entry)
+      .returning();
+    return auditLog;
+  }
+
+  async recordDownload(download: InsertAssetDownload): Promise<AssetDownload> {
+    const [assetDownload] = await db
+      .insert(assetDownloads)
+      .values(download)
+      .returning();
+    return assetDownload;
+  }
+
+  async getAssetsByContentHash(contentHash: string): Promise<Asset[]> {
+    return await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.contentHash, contentHash), isNull(assets.deletedAt)))
+      .orderBy(assets.uploadDate);
+  }
+
+  async getAssetsWithoutContentHash(): Promise<Asset[]> {
+    return await db.select().from(assets).where(isNull(assets.contentHash));
+  }
+
+  // Records the hash of an asset's current file, and of the revisions that
+  // share that file
+  async setContentHash(asset: Asset, contentHash: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(assets).set({ contentHash }).where(eq(assets.id, asset.id));
+      await tx
+        .update(assetVersions)
+        .set({ contentHash })
+        .where(and(
+          eq(assetVersions.assetId, asset.id),
+          eq(assetVersions.googleDriveFileId, asset.googleDriveFileId),
+        ));
+    });
+  }
+
+  async getDuplicateGroups(): Promise<DuplicateGroup[]> {
+    const hashes = db
+      .select({ contentHash: assets.contentHash })
+      .from(assets)
+      .where(and(isNotNull(assets.contentHash), isNull(assets.deletedAt)))
+      .groupBy(assets.contentHash)
+      .having(sql`count(*) > 1`);
+
+    const rows = await db
+      .select()
+      .from(assets)
+      .where(and(inArray(assets.contentHash, hashes), isNull(assets.deletedAt)))
+      .orderBy(assets.contentHash, assets.uploadDate);
+
+    const groups = new Map<string, Asset[]>();
+    for (const row of rows) {
+      groups.set(row.contentHash!, [...(groups.get(row.contentHash!) ?? []), row]);
+    }
+    return Array.from(groups, ([contentHash, groupAssets]) => ({ contentHash, assets: groupAssets }));
+  }
+
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    const [created] = await db
+      .insert(uploadSessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session || undefined;
+  }
+
+  async updateUploadSessionOffset(id: string, offset: number): Promise<UploadSession> {
+    const [session] = await db
+      .update(uploadSessions)
+      .set({ offset, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async getUploadSessionsUpdatedBefore(date: Date): Promise<UploadSession[]> {
+    return await db
+      .select()
+      .from(uploadSessions)
+      .where(lt(uploadSessions.updatedAt, date));
+  }
+
+  // Every file reference in the database, trashed assets included since
+  // their files are still kept
+  async getFileRecords(): Promise<FileRecord[]> {
+    const placement = {
+      category: assets.category,
+      region: assets.region,
+      state: assets.state,
+      resort: assets.resort,
+      year: assets.year,
+      month: assets.month,
+      assetType: assets.assetType,
+    };
+
+    const currentFiles = await db
+      .select({
+        assetId: assets.id,
+        filename: assets.filename,
+        storageProvider: assets.storageProvider,
+        googleDriveFileId: assets.googleDriveFileId,
+        driveLink: assets.driveLink,
+        fileSize: assets.fileSize,
+        missingAt: assets.missingAt,
+        asset: placement,
+      })
+      .from(assets);
+
+    const revisionFiles = await db
+      .select({
+        assetId: assetVersions.assetId,
+        versionId: assetVersions.id,
+        filename: assetVersions.filename,
+        storageProvider: assetVersions.storageProvider,
+        googleDriveFileId: assetVersions.googleDriveFileId,
+        driveLink: assetVersions.driveLink,
+        fileSize: assetVersions.fileSize,
+        missingAt: assetVersions.missingAt,
+        asset: placement,
+      })
+      .from(assetVersions)
+      .innerJoin(assets, eq(assetVersions.assetId, assets.id));
+
+    const slideFiles = await db
+      .select({
+        assetId: assetSlides.assetId,
+        slideId: assetSlides.id,
+        filename: assetSlides.filename,
+        storageProvider: assetSlides.storageProvider,
+        googleDriveFileId: assetSlides.googleDriveFileId,
+        driveLink: assetSlides.driveLink,
+        fileSize: assetSlides.fileSize,
+        missingAt: assetSlides.missingAt,
+        asset: placement,
+      })
+      .from(assetSlides)
+      .innerJoin(assets, eq(assetSlides.assetId, assets.id));
+
+    return [
+      ...currentFiles.map(record => ({ ...record, versionId: null, slideId: null })),
+      ...revisionFiles.map(record => ({ ...record, slideId: null })),
+      ...slideFiles.map(record => ({ ...record, versionId: null })),
+    ];
+  }
+
+  // Applies the same file changes to a set of asset, revision and slide rows
+  async updateFileRecords(
+    records: Pick<FileRecord, "assetId" | "versionId" | "slideId">[],
+    changes: FileRecordChanges,
+  ): Promise<void> {
+    const assetIds = records.filter(record => !record.versionId && !record.slideId).map(record => record.assetId);
+    const versionIds = records.flatMap(record => record.versionId ? [record.versionId] : []);
+    const slideIds = records.flatMap(record => record.slideId ? [record.slideId] : []);
+
+    await db.transaction(async (tx) => {
+      if (assetIds.length > 0) {
+        await tx
+          .update(assets)
+          .set({
+            ...changes,
+            // Image thumbnails are the file itself and move with it
+            ...(changes.driveLink && {
+              thumbnailUrl: sql`case when ${assets.thumbnailUrl} = ${assets.driveLink} then ${changes.driveLink} else ${assets.thumbnailUrl} end`,
+            }),
+            updatedAt: new Date(),
+          })
+          .where(inArray(assets.id, assetIds));
+      }
+      if (versionIds.length > 0) {
+        await tx
+          .update(assetVersions)
+          .set({
+            ...changes,
+            ...(changes.driveLink && {
+              thumbnailUrl: sql`case when ${assetVersions.thumbnailUrl} = ${assetVersions.driveLink} then ${changes.driveLink} else ${assetVersions.thumbnailUrl} end`,
+            }),
+          })
+          .where(inArray(assetVersions.id, versionIds));
+      }
+      if (slideIds.length > 0) {
+        await tx
+          .update(assetSlides)
+          .set(changes)
+          .where(inArray(assetSlides.id, slideIds));
+      }
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,64 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import type { Asset, AssetRendition, InsertAssetRendition } from "@shared/schema";
+import { storage } from "./storage";
+import { LocalStorageProvider, setProvider } from "./file-storage";
+import { generateRenditions } from "./thumbnails";
+
+let rootDir: string;
+let provider: LocalStorageProvider;
+
+const asset = {
+  id: "asset-1",
+  filename: "2025_03_North_Brand_Static_V1.png",
+  mimeType: "image/png",
+  category: "Brand",
+  region: "North",
+  state: "NSW",
+  resort: null,
+  year: 2025,
+  month: 3,
+  assetType: "Static",
+  version: 1,
+  storageProvider: "local",
+  googleDriveFileId: "Assets/source.png",
+  driveLink: "/uploads/Assets/source.png",
+} as Asset;
+
+before(async () => {
+  rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "thumbnails-test-"));
+  await fs.promises.mkdir(path.join(rootDir, "Assets"));
+  await sharp({ create: { width: 40, height: 20, channels: 3, background: "#14b8a6" } })
+    .png()
+    .toFile(path.join(rootDir, "Assets/source.png"));
+  provider = new LocalStorageProvider(rootDir);
+  setProvider(provider);
+});
+
+after(async () => {
+  mock.restoreAll();
+  await fs.promises.rm(rootDir, { recursive: true, force: true });
+});
+
+test("regenerating renditions replaces the previous files", async () => {
+  let stored: AssetRendition[] = [];
+  mock.method(storage, "replaceRenditions", async (_assetId: string, renditions: InsertAssetRendition[]) => {
+    const previous = stored;
+    stored = renditions.map((rendition, index) => ({ ...rendition, id: `r${index}` }) as AssetRendition);
+    return previous;
+  });
+
+  await generateRenditions(asset);
+  const first = stored.map(rendition => rendition.storageKey);
+  await generateRenditions(asset);
+  const second = stored.map(rendition => rendition.storageKey);
+
+  assert.equal(second.length, 2);
+  assert.notDeepEqual(second, first);
+  const files = (await provider.list("Assets")).map(file => file.key).filter(key => key.includes("_renditions"));
+  assert.deepEqual(files.sort(), [...second].sort());
+});
@@ -0,0 +1,182 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { promisify } from "util";
+import sharp from "sharp";
+import { RENDITION_SIZES, type Asset, type AssetRendition, type InsertAssetRendition, type RenditionSize } from "@shared/schema";
+import { storage } from "./storage";
+import { getProvider, getFileRef } from "./file-storage";
+import { getRenditionFolderPath } from "./naming";
+import { computePerceptualHash } from "./similarity";
+import { extractPalette } from "./palette";
+import { log } from "./vite";
+
+// Small and medium WebP previews so the asset grid doesn't load originals.
+// Images are resized directly; videos use a poster frame (ffmpeg) and PDFs
+// their first page (pdftoppm from poppler). Renditions are stored with the
+// asset's own provider, in a folder beside its file. The same still gives
+// the asset's perceptual hash for "Find similar" and its colour palette.
+
+const execFileAsync = promisify(execFile);
+
+// Longest edge of each rendition, in pixels
+const RENDITION_DIMENSIONS: Record<RenditionSize, number> = {
+  small: 320,
+  medium: 1024,
+};
+
+const BACKFILL_INTERVAL_MS = 60 * 60 * 1000;
+
+export function canRender(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType.startsWith("video/") || mimeType === "application/pdf";
+}
+
+// The version busts browser caches when a new file replaces the renditions
+export function getThumbnailUrl(asset: Pick<Asset, "id" | "version">, size: RenditionSize): string {
+  return `/api/assets/${asset.id}/thumbnail/${size}?v=${asset.version}`;
+}
+
+// An image sharp can read for the file: the file itself for images, a frame
+// a second in for videos, the first page for PDFs
+async function extractStill(source: string, mimeType: string, workDir: string): Promise<string> {
+  if (mimeType.startsWith("image/")) {
+    return source;
+  }
+
+  if (mimeType.startsWith("video/")) {
+    const poster = path.join(workDir, "poster.png");
+    // Clips shorter than a second have nothing there; fall back to the first frame
+    for (const seek of ["1", "0"]) {
+      await execFileAsync("ffmpeg", ["-v", "error", "-y", "-ss", seek, "-i", source, "-frames:v", "1", poster]);
+      if (fs.existsSync(poster)) return poster;
+    }
+    throw new Error("ffmpeg produced no poster frame");
+  }
+
+  const prefix = path.join(workDir, "page");
+  await execFileAsync("pdftoppm", [
+    "-png", "-f", "1", "-l", "1", "-singlefile",
+    "-scale-to", String(RENDITION_DIMENSIONS.medium),
+    source, prefix
+  ]);
+  return `${prefix}.png`;
+}
+
+// Builds the asset's renditions from its current file and swaps them in,
+// deleting the ones they replace
+export async function generateRenditions(asset: Asset): Promise<void> {
+  const ref = getFileRef(asset);
+  const provider = getProvider(ref.provider);
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "renditions-"));
+
+  try {
+    const source = path.join(workDir, "source");
+    await pipeline(await provider.getStream(ref.key), fs.createWriteStream(source));
+    const still = await extractStill(source, asset.mimeType, workDir);
+    const perceptualHash = await computePerceptualHash(still);
+    const palette = await extractPalette(still);
+
+    const folderId = await provider.ensureFolder(getRenditionFolderPath(asset));
+    const baseName = path.parse(asset.filename).name;
+    // Providers won't overwrite a file, so each render gets its own names and
+    // the renditions it replaces are deleted once it's swapped in
+    const renderId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const renditions: InsertAssetRendition[] = [];
+    let previous: AssetRendition[];
+
+    try {
+      for (const size of RENDITION_SIZES) {
+        const output = path.join(workDir, `${size}.webp`);
+        const dimension = RENDITION_DIMENSIONS[size];
+        const info = await sharp(still)
+          .rotate() // apply EXIF orientation
+          .resize(dimension, dimension, { fit: "inside", withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toFile(output);
+
+        const stored = await provider.put({
+          localPath: output,
+          name: `${baseName}_${size}_${renderId}.webp`,
+          mimeType: "image/webp",
+          size: info.size,
+          folderId
+        });
+        renditions.push({
+          assetId: asset.id,
+          size,
+          sourceLink: asset.driveLink,
+          storageProvider: provider.name,
+          storageKey: stored.key,
+          width: info.width,
+          height: info.height,
+          fileSize: info.size
+        });
+      }
+
+      previous = await storage.replaceRenditions(asset.id, renditions, {
+        thumbnailUrl: getThumbnailUrl(asset, "small"),
+        perceptualHash,
+        palette
+      });
+    } catch (error) {
+      // Don't leave a partial render behind
+      await deleteRenditionFiles(renditions);
+      throw error;
+    }
+
+    await deleteRenditionFiles(previous);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function deleteRenditionFiles(renditions: Pick<InsertAssetRendition, "storageProvider" | "storageKey">[]) {
+  for (const rendition of renditions) {
+    await getProvider(rendition.storageProvider).delete(rendition.storageKey).catch(error => {
+      console.error(`Error deleting rendition ${rendition.storageKey}:`, error);
+    });
+  }
+}
+
+// Renditions are generated in the background, one asset at a time so the
+// server stays responsive. The asset is re-read when its turn comes, so a
+// newer version uploaded meanwhile is the one rendered.
+let queue = Promise.resolve();
+const queued = new Set<string>();
+
+export function queueRenditions(asset: Pick<Asset, "id" | "mimeType">) {
+  if (!canRender(asset.mimeType) || queued.has(asset.id)) return;
+  queued.add(asset.id);
+
+  queue = queue.then(async () => {
+    queued.delete(asset.id);
+    try {
+      const current = await storage.getAsset(asset.id);
+      if (current && !current.deletedAt) {
+        await generateRenditions(current);
+      }
+    } catch (error) {
+      console.error(`Error generating renditions for asset ${asset.id}:`, error);
+    }
+  });
+}
+
+// Queues assets whose current file has no renditions, perceptual hash or
+// palette:
+// older assets, imports and earlier failures. Runs at startup and then hourly.
+export function startRenditionBackfill() {
+  const run = () => {
+    storage.getAssetsWithoutRenditions()
+      .then(assets => {
+        const renderable = assets.filter(asset => canRender(asset.mimeType));
+        renderable.forEach(queueRenditions);
+        if (renderable.length > 0) log(`queued ${renderable.length} asset(s) for preview renditions`);
+      })
+      .catch(error => console.error("Error queueing preview renditions:", error));
+  };
+
+  run();
+  setInterval(run, BACKFILL_INTERVAL_MS).unref();
+}
@@ -0,0 +1,59 @@
+import { storage } from "./storage";
+import { deleteAssetFiles, FileStorageError } from "./file-storage";
+import { log } from "./vite";
+
+// How long a trashed asset is kept before its files are purged for good
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10);
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Permanently removes an asset's files and record. Shared by the "Delete
+// Forever" route and the background purge.
+export async function purgeAsset(assetId: string): Promise<void> {
+  const asset = await storage.getAsset(assetId);
+  if (!asset) return;
+
+  // Keep the record if the files can't be deleted so the purge is retried
+  const revisions = await storage.getAssetVersions(asset.id);
+  const slides = await storage.getSlides(asset.id);
+  const renditions = await storage.getRenditions(asset.id);
+  await deleteAssetFiles(asset, [...revisions, ...slides], renditions);
+  await storage.deleteAsset(asset.id);
+}
+
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await storage.getTrashedBefore(cutoff);
+
+  let purged = 0;
+  for (const asset of expired) {
+    try {
+      await purgeAsset(asset.id);
+      await storage.createAuditEntry({
+        userId: null,
+        action: "asset.purge",
+        assetId: asset.id,
+        details: { filename: asset.filename, deletedAt: asset.deletedAt }
+      });
+      purged++;
+    } catch (error) {
+      if (!(error instanceof FileStorageError)) throw error;
+      console.error(`Error purging asset ${asset.id}, will retry:`, error);
+    }
+  }
+  return purged;
+}
+
+// Purges once at startup and then hourly
+export function startTrashPurge() {
+  const run = () => {
+    purgeExpiredTrash()
+      .then(purged => {
+        if (purged > 0) log(`purged ${purged} asset(s) from the trash`);
+      })
+      .catch(error => console.error("Error purging trash:", error));
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,62 @@
+import { test, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FileExistsError } from "./file-storage";
+import { withNextVersion } from "./versions";
+
+const KEY = { year: 2025, month: 3, region: "North", resort: null, assetType: "Static" };
+
+function uniqueViolation(constraint: string) {
+  return Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505", constraint });
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test("takes the version after the latest in use", async () => {
+  mock.method(storage, "getLatestVersion", async () => 3);
+
+  assert.equal(await withNextVersion(KEY, 0, async (version) => version), 4);
+  assert.equal(await withNextVersion(KEY, 7, async (version) => version), 8);
+});
+
+test("moves on when another upload claimed the version first", async () => {
+  // The racing upload took V4 between the read and the insert
+  const latest = [3, 4];
+  mock.method(storage, "getLatestVersion", async () => latest.shift() ?? 4);
+  const tried: number[] = [];
+
+  const version = await withNextVersion(KEY, 0, async (version) => {
+    tried.push(version);
+    if (version === 4) throw uniqueViolation("assets_name_version_idx");
+    return version;
+  });
+
+  assert.equal(version, 5);
+  assert.deepEqual(tried, [4, 5]);
+});
+
+test("moves on when the file name is taken or the latest version hasn't changed", async () => {
+  mock.method(storage, "getLatestVersion", async () => 1);
+  const errors = [new FileExistsError("Assets/2025_03_North_Brand_Static_V2.jpg"), uniqueViolation("asset_versions_asset_version_idx")];
+  const tried: number[] = [];
+
+  await withNextVersion(KEY, 0, async (version) => {
+    tried.push(version);
+    const error = errors.shift();
+    if (error) throw error;
+  });
+
+  assert.deepEqual(tried, [2, 3, 4]);
+});
+
+test("other errors, and a version still taken after five tries, are thrown", async () => {
+  mock.method(storage, "getLatestVersion", async () => 0);
+
+  await assert.rejects(withNextVersion(KEY, 0, async () => { throw uniqueViolation("users_username_unique"); }), /duplicate key/);
+
+  const create = mock.fn(async () => { throw uniqueViolation("assets_name_version_idx"); });
+  await assert.rejects(withNextVersion(KEY, 0, create), /duplicate key/);
+  assert.equal(create.mock.callCount(), 5);
+});
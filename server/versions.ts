@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import { FileExistsError } from "./file-storage";
+import type { AssetNamingKey } from "./naming";
+
+// Versions are picked by reading the highest one in use, so two uploads
+// under the same naming key can pick the same number. Whichever stores its
+// file or row second is refused (the providers won't overwrite a file and
+// the unique indexes on assets and asset_versions reject the row) and tries
+// again with the next version.
+
+const MAX_ATTEMPTS = 5;
+
+const VERSION_CONSTRAINTS = ["assets_name_version_idx", "asset_versions_asset_version_idx"];
+
+function isVersionTaken(error: unknown): boolean {
+  if (error instanceof FileExistsError) return true;
+  const { code, constraint } = error as { code?: string; constraint?: string };
+  return code === "23505" && VERSION_CONSTRAINTS.includes(constraint ?? "");
+}
+
+// Runs create with the next free version for a naming key (and above
+// `after`, the asset's own version for revisions), moving on to the
+// following version whenever another upload claimed it first
+export async function withNextVersion<T>(
+  key: AssetNamingKey,
+  after: number,
+  create: (version: number) => Promise<T>,
+): Promise<T> {
+  let version = Math.max(after, await storage.getLatestVersion(key)) + 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await create(version);
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isVersionTaken(error)) throw error;
+      version = Math.max(version, await storage.getLatestVersion(key)) + 1;
+    }
+  }
+}
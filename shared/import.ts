@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { STORAGE_PROVIDERS } from "./schema";
+
+// Bulk import of an existing Assets/{category}/{region}/{state}/{resort}/
+// {year}/{month}/{assetType} folder tree. Shared so the admin page and the
+// API agree on the request and report shapes.
+
+export const importSourceSchema = z.discriminatedUnion("type", [
+  // A folder already in storage (a Drive folder, an S3 prefix or a folder
+  // under uploads/); records link to the files where they are
+  z.object({
+    type: z.literal("storage"),
+    provider: z.enum(STORAGE_PROVIDERS),
+    folderPath: z.string().min(1),
+  }),
+  // A directory on the server; files are copied into the primary storage
+  z.object({
+    type: z.literal("directory"),
+    path: z.string().min(1),
+  }),
+]);
+
+export const importRequestSchema = z.object({
+  source: importSourceSchema,
+  dryRun: z.boolean().default(true),
+});
+
+export type ImportSource = z.infer<typeof importSourceSchema>;
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export interface ImportReportEntry {
+  path: string;
+  filename?: string;
+  assetId?: string; // set once a record has been created
+  reason?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  imported: ImportReportEntry[]; // would be imported, on a dry run
+  skipped: ImportReportEntry[];  // already in the library
+  unparseable: ImportReportEntry[];
+  failed: ImportReportEntry[];
+}
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { UserRole } from "./schema";
+import { hasRegionAccess, canUpload, canEditAsset, canDeleteAsset, canManageUsers } from "./permissions";
+
+const user = (role: UserRole, regions: string[] | null = null) => ({ role, regions });
+
+test("viewers can't upload, edit or delete anywhere", () => {
+  const viewer = user("viewer", ["North"]);
+
+  assert.equal(canUpload(viewer), false);
+  assert.equal(canUpload(viewer, "North"), false);
+  assert.equal(canEditAsset(viewer, { region: "North" }), false);
+  assert.equal(canDeleteAsset(viewer, { region: "North" }), false);
+});
+
+test("contributors work only in their regions", () => {
+  const contributor = user("contributor", ["North", "West"]);
+
+  assert.equal(hasRegionAccess(contributor, "West"), true);
+  assert.equal(hasRegionAccess(contributor, "South"), false);
+  assert.equal(canUpload(contributor), true);
+  assert.equal(canUpload(contributor, "South"), false);
+  assert.equal(canEditAsset(contributor, { region: "North" }), true);
+  assert.equal(canEditAsset(contributor, { region: "South" }), false);
+  assert.equal(canDeleteAsset(contributor, { region: "South" }), false);
+});
+
+test("contributors without a region scope work nowhere", () => {
+  for (const contributor of [user("contributor"), user("contributor", [])]) {
+    assert.equal(hasRegionAccess(contributor, "North"), false);
+    assert.equal(canUpload(contributor), false);
+    assert.equal(canEditAsset(contributor, { region: "North" }), false);
+  }
+});
+
+test("approvers and admins work in every region; only admins manage users", () => {
+  for (const role of ["approver", "admin"] as const) {
+    const scoped = user(role, ["North"]);
+    assert.equal(canUpload(scoped, "South"), true);
+    assert.equal(canEditAsset(scoped, { region: "South" }), true);
+    assert.equal(canDeleteAsset(scoped, { region: "South" }), true);
+  }
+
+  assert.equal(canManageUsers(user("admin")), true);
+  assert.equal(canManageUsers(user("approver")), false);
+  assert.equal(canManageUsers(user("contributor", ["North"])), false);
+});
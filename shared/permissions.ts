@@ -0,0 +1,38 @@
+import type { Asset, PublicUser, UserRole } from "./schema";
+
+// Role and region checks shared by the API handlers and the UI so both
+// sides agree on what a user may do.
+//
+// - viewer:      browse and download only
+// - contributor: upload, edit and delete assets in their regions
+// - approver:    upload, edit and delete assets in every region
+// - admin:       everything, including user management
+
+type PermissionUser = Pick<PublicUser, "role" | "regions">;
+
+const WRITE_ROLES: UserRole[] = ["contributor", "approver", "admin"];
+
+// Contributors work only in the regions they're scoped to; one without a
+// scope works in none until an admin assigns some
+export function hasRegionAccess(user: PermissionUser, region: string): boolean {
+  if (user.role !== "contributor") return true;
+  return (user.regions ?? []).some((scoped) => scoped === region);
+}
+
+export function canUpload(user: PermissionUser, region?: string): boolean {
+  if (!WRITE_ROLES.includes(user.role)) return false;
+  if (region) return hasRegionAccess(user, region);
+  return user.role !== "contributor" || (user.regions ?? []).length > 0;
+}
+
+export function canEditAsset(user: PermissionUser, asset: Pick<Asset, "region">): boolean {
+  return WRITE_ROLES.includes(user.role) && hasRegionAccess(user, asset.region);
+}
+
+export function canDeleteAsset(user: PermissionUser, asset: Pick<Asset, "region">): boolean {
+  return WRITE_ROLES.includes(user.role) && hasRegionAccess(user, asset.region);
+}
+
+export function canManageUsers(user: PermissionUser): boolean {
+  return user.role === "admin";
+}
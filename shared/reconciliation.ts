@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { StorageProviderName } from "./schema";
+
+// Report produced by the storage reconciliation job and the fixes an admin
+// can apply to it. Shared so the admin page reads the same shapes the API
+// sends.
+
+export const RECONCILIATION_FIXES = ["relink", "mark_missing", "import", "sync_size", "move_back"] as const;
+export type ReconciliationFix = typeof RECONCILIATION_FIXES[number];
+
+export type ReconciliationIssueType =
+  | "missing"       // records point at a file that no longer exists
+  | "orphaned"      // a file in the asset tree that no record points at
+  | "size_mismatch" // the stored file's size differs from the records
+  | "moved";        // the file exists but outside the asset tree
+
+export interface ReconciliationRecord {
+  assetId: string;
+  versionId: string | null; // null for the asset's current file
+  slideId: string | null; // set for a carousel slide's file
+  filename: string;
+  fileSize: number;
+  missingAt: Date | string | null;
+}
+
+export interface ReconciliationFile {
+  key: string;
+  name: string;
+  path: string;
+  size: number;
+  url: string;
+}
+
+export interface ReconciliationIssue {
+  id: string;
+  type: ReconciliationIssueType;
+  provider: StorageProviderName;
+  key: string;
+  path?: string; // where an orphaned file sits
+  actualSize?: number;
+  records: ReconciliationRecord[];
+  candidates?: ReconciliationFile[]; // orphaned files a missing record could be re-linked to
+  importError?: string; // why an orphaned file can't be imported
+  fixes: ReconciliationFix[];
+}
+
+export interface ReconciliationReport {
+  startedAt: Date | string;
+  finishedAt: Date | string;
+  providers: { name: StorageProviderName; fileCount: number; error?: string }[];
+  issues: ReconciliationIssue[];
+}
+
+export const reconciliationFixSchema = z.object({
+  issueId: z.string(),
+  fix: z.enum(RECONCILIATION_FIXES),
+  targetKey: z.string().optional(), // file to re-link to
+});
+
+export type ReconciliationFixRequest = z.infer<typeof reconciliationFixSchema>;
@@ -1,12 +1,37 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean } from "drizzle-orm/pg-core";
+import { sql, type AnyColumn } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, real, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const USER_ROLES = ["viewer", "contributor", "approver", "admin"] as const;
+export const REGIONS = ["North", "South", "East", "West"] as const;
+
+export const STORAGE_PROVIDERS = ["drive", "local", "s3"] as const;
+export const RENDITION_SIZES = ["small", "medium"] as const;
+// Emailers are uploaded as a single HTML file or a ZIP of HTML plus images
+export const EMAILER_MIME_TYPES = ["text/html", "application/zip", "application/x-zip-compressed"];
+
+export type UserRole = typeof USER_ROLES[number];
+export type StorageProviderName = typeof STORAGE_PROVIDERS[number];
+export type Region = typeof REGIONS[number];
+export type RenditionSize = typeof RENDITION_SIZES[number];
+
+// One of an image's dominant colours, with its CIELAB coordinates for
+// perceptual matching and the share of the image it covers (0-1)
+export interface PaletteColor {
+  hex: string;
+  l: number;
+  a: number;
+  b: number;
+  share: number;
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("viewer"),
+  regions: jsonb("regions").$type<Region[]>().notNull().default([]), // empty = all regions
 });
 
 export const assets = pgTable("assets", {
@@ -23,34 +48,340 @@ export const assets = pgTable("assets", {
   version: integer("version").notNull().default(1),
   fileSize: integer("file_size").notNull(),
   mimeType: text("mime_type").notNull(),
+  // Backend holding the file; the google_drive_* columns hold that backend's
+  // file key and folder id (names kept from when Drive was the only option)
+  storageProvider: text("storage_provider").$type<StorageProviderName>().notNull().default("drive"),
   googleDriveFileId: text("google_drive_file_id").notNull(),
   googleDriveFolderId: text("google_drive_folder_id").notNull(),
   driveLink: text("drive_link").notNull(),
   versionsLink: text("versions_link"),
   thumbnailUrl: text("thumbnail_url"),
+  contentHash: text("content_hash"), // SHA-256 of the current file, hex
+  // Difference hash of the image, poster frame or first page, 16 hex digits;
+  // set alongside the preview renditions
+  perceptualHash: text("perceptual_hash"),
+  palette: jsonb("palette").$type<PaletteColor[]>(), // dominant colours, largest share first
+  // Read from the file when it's uploaded: videos by ffprobe, images by
+  // sharp and exifr (EXIF, IPTC and XMP)
+  width: integer("width"),
+  height: integer("height"),
+  duration: real("duration"), // seconds
+  videoCodec: text("video_codec"),
+  colorSpace: text("color_space"), // ICC profile name if embedded, e.g. "Adobe RGB (1998)"
+  dpi: integer("dpi"),
+  creator: text("creator"),
+  copyright: text("copyright"),
+  keywords: jsonb("keywords").$type<string[]>(),
   tags: jsonb("tags").$type<string[]>().default([]),
   isFavorite: boolean("is_favorite").default(false),
   uploadDate: timestamp("upload_date").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  deletedAt: timestamp("deleted_at"), // set while the asset is in the trash
+  missingAt: timestamp("missing_at"), // set when reconciliation found the file gone from storage
+}, (table) => [
+  index("assets_content_hash_idx").on(table.contentHash),
+  index("assets_search_idx").using("gin", assetSearchDocument(table)),
+  // One asset per generated name; concurrent uploads that pick the same
+  // version fail here and retry with the next one
+  uniqueIndex("assets_name_version_idx").on(
+    table.year, table.month, table.region, sql`coalesce(${table.resort}, '')`, table.assetType, table.version
+  ),
+]);
+
+// The weighted text searched by the header search box: names first, then
+// tags and resort, then location. Dots, dashes and underscores split words,
+// so generated filenames are found by their parts. Queries must use this
+// same expression for the index to apply.
+export function assetSearchDocument(
+  columns: Record<"filename" | "originalName" | "tags" | "resort" | "state" | "region", AnyColumn>
+) {
+  return sql`(
+    setweight(to_tsvector('simple', regexp_replace(${columns.filename} || ' ' || ${columns.originalName}, '[._-]+', ' ', 'g')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(${columns.tags}, '[]'::jsonb)), 'B') ||
+    setweight(to_tsvector('simple', coalesce(${columns.resort}, '')), 'B') ||
+    setweight(to_tsvector('simple', ${columns.state} || ' ' || ${columns.region}), 'C')
+  )`;
+}
+
+// One row per file revision of an asset; the assets row always mirrors the
+// current revision.
+export const assetVersions = pgTable("asset_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  filename: text("filename").notNull(),
+  storageProvider: text("storage_provider").$type<StorageProviderName>().notNull().default("drive"),
+  googleDriveFileId: text("google_drive_file_id").notNull(),
+  driveLink: text("drive_link").notNull(),
+  thumbnailUrl: text("thumbnail_url"),
+  fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  contentHash: text("content_hash"),
+  width: integer("width"),
+  height: integer("height"),
+  duration: real("duration"),
+  videoCodec: text("video_codec"),
+  colorSpace: text("color_space"),
+  dpi: integer("dpi"),
+  creator: text("creator"),
+  copyright: text("copyright"),
+  keywords: jsonb("keywords").$type<string[]>(),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  missingAt: timestamp("missing_at"),
+}, (table) => [
+  uniqueIndex("asset_versions_asset_version_idx").on(table.assetId, table.version),
+]);
+
+// Asset details an upload is filed under, as sent by the upload form
+export interface UploadFields {
+  category: string;
+  assetType: string;
+  region: string;
+  state: string;
+  resort?: string;
+  tags?: string;
+}
+
+// A resumable upload in progress. The bytes received so far are kept on
+// disk until the upload completes and becomes an asset.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(), // original name of the file being uploaded
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  offset: integer("offset").notNull().default(0), // bytes received so far
+  fields: jsonb("fields").$type<UploadFields>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Who did what to which asset, for changes that need an audit trail
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // e.g. version.restore
+  assetId: varchar("asset_id"), // kept after the asset is deleted
+  details: jsonb("details").$type<Record<string, unknown>>().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Preview images generated from an asset's current file (WebP, stored next
+// to the file). sourceLink is the driveLink they were made from, so a new
+// version's file is noticed as lacking renditions.
+export const assetRenditions = pgTable("asset_renditions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  size: text("size").$type<RenditionSize>().notNull(),
+  sourceLink: text("source_link").notNull(),
+  storageProvider: text("storage_provider").$type<StorageProviderName>().notNull(),
+  storageKey: text("storage_key").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  fileSize: integer("file_size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// The slides of a Carousel asset, in display order. The first slide
+// uploaded is the asset's own file and its cover in the grid; the rest are
+// stored in a _slides folder beside it.
+export const assetSlides = pgTable("asset_slides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // 0-based
+  filename: text("filename").notNull(),
+  originalName: text("original_name").notNull(),
+  storageProvider: text("storage_provider").$type<StorageProviderName>().notNull().default("drive"),
+  googleDriveFileId: text("google_drive_file_id").notNull(),
+  driveLink: text("drive_link").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  contentHash: text("content_hash"),
+  missingAt: timestamp("missing_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("asset_slides_asset_id_idx").on(table.assetId),
+]);
+
+// One row per file download, for usage analytics
+export const assetDownloads = pgTable("asset_downloads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assetId: varchar("asset_id").notNull().references(() => assets.id, { onDelete: "cascade" }),
+  versionId: varchar("version_id").references(() => assetVersions.id, { onDelete: "set null" }), // null for the current file
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(USER_ROLES),
+  regions: z.array(z.enum(REGIONS)),
+}).pick({
   username: true,
   password: true,
+  role: true,
+  regions: true,
 });
 
-export const insertAssetSchema = createInsertSchema(assets).omit({
+export const updateUserSchema = insertUserSchema.partial();
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const insertAssetSchema = createInsertSchema(assets, {
+  storageProvider: z.enum(STORAGE_PROVIDERS),
+  keywords: z.array(z.string()).nullish(),
+}).omit({
   id: true,
   uploadDate: true,
   updatedAt: true,
+  deletedAt: true,
+  missingAt: true,
+  perceptualHash: true,
+  palette: true,
 });
 
-export const updateAssetSchema = insertAssetSchema.partial().extend({
-  id: z.string(),
+export const insertAssetVersionSchema = createInsertSchema(assetVersions, {
+  storageProvider: z.enum(STORAGE_PROVIDERS),
+  keywords: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  missingAt: true,
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
 });
 
+export const insertAssetRenditionSchema = createInsertSchema(assetRenditions, {
+  size: z.enum(RENDITION_SIZES),
+  storageProvider: z.enum(STORAGE_PROVIDERS),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAssetSlideSchema = createInsertSchema(assetSlides, {
+  storageProvider: z.enum(STORAGE_PROVIDERS),
+}).omit({
+  id: true,
+  createdAt: true,
+  missingAt: true,
+});
+
+// Completed resumable uploads to turn into one Carousel asset, in slide order
+export const carouselUploadSchema = z.object({
+  sessionIds: z.array(z.string()).min(1),
+});
+
+// The asset's slide ids in their new order; every slide must be listed once
+export const reorderSlidesSchema = z.object({
+  slideIds: z.array(z.string()).min(1),
+});
+
+export const insertAssetDownloadSchema = createInsertSchema(assetDownloads).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const uploadFieldsSchema = z.object({
+  category: z.string().min(1),
+  assetType: z.string().min(1),
+  region: z.string().min(1),
+  state: z.string().min(1),
+  resort: z.string().optional(),
+  tags: z.string().optional(),
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions, {
+  size: z.number().int().positive(),
+  fields: uploadFieldsSchema,
+}).pick({
+  filename: true,
+  mimeType: true,
+  size: true,
+  fields: true,
+});
+
+// Only descriptive metadata is editable; file references, hashes and
+// technical details are set by the server from the stored file. Region,
+// resort and asset type are part of the generated name, so they're refused
+// rather than left disagreeing with it.
+export const updateAssetSchema = insertAssetSchema.pick({
+  category: true,
+  state: true,
+  tags: true,
+  isFavorite: true,
+}).partial().extend({
+  id: z.string(),
+}).strict();
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type Asset = typeof assets.$inferSelect;
+// An asset in a listing; when searching, snippet is its matching metadata
+// with the matched words wrapped in <mark>
+export type AssetListItem = Asset & { snippet: string | null };
+export type LoginData = z.infer<typeof loginSchema>;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type UpdateAsset = z.infer<typeof updateAssetSchema>;
+export type AssetVersion = typeof assetVersions.$inferSelect;
+export type InsertAssetVersion = z.infer<typeof insertAssetVersionSchema>;
+export type AssetVersionWithUploader = AssetVersion & { uploaderName: string | null };
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AssetRendition = typeof assetRenditions.$inferSelect;
+export type InsertAssetRendition = z.infer<typeof insertAssetRenditionSchema>;
+export type AssetSlide = typeof assetSlides.$inferSelect;
+export type InsertAssetSlide = z.infer<typeof insertAssetSlideSchema>;
+export type AssetDownload = typeof assetDownloads.$inferSelect;
+export type InsertAssetDownload = z.infer<typeof insertAssetDownloadSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema> & { userId: string };
+
+// Technical details of a file, as stored on assets and asset_versions
+export type MediaInfo = Pick<
+  Asset,
+  "width" | "height" | "duration" | "videoCodec" | "colorSpace" | "dpi" | "creator" | "copyright" | "keywords"
+>;
+
+export const ORIENTATIONS = ["portrait", "landscape", "square"] as const;
+export type Orientation = typeof ORIENTATIONS[number];
+
+// Orders of the asset listing; relevance applies while searching
+export const ASSET_SORTS = ["date", "name", "size", "type", "relevance"] as const;
+export type AssetSort = typeof ASSET_SORTS[number];
+
+// Live assets whose files have identical content
+export interface DuplicateGroup {
+  contentHash: string;
+  assets: Asset[];
+}
+
+// An asset that looks like another, with the number of perceptual hash bits
+// (of 64) that differ
+export type SimilarAsset = Asset & { distance: number };
+
+// Live assets that look alike but whose files differ, e.g. re-exports of
+// the same artwork
+export interface NearDuplicateGroup {
+  assets: Asset[];
+  maxDistance: number; // largest distance among the pairs linking the group
+}
+
+// An emailer's HTML, with the images from its ZIP inlined so it renders on
+// its own, and the details a reviewer checks
+export interface EmailerPreview {
+  html: string;
+  subject: string | null;
+  preheader: string | null;
+  links: { href: string; text: string }[];
+}